@@ -3,7 +3,12 @@ import { HashRouter as Router, Routes, Route } from 'react-router-dom';
 import Navbar from './components/Navbar';
 import Home from './components/Home';
 import SearchResults from './components/SearchResults';
+import PantryResults from './components/PantryResults';
+import SavedRecipes from './components/SavedRecipes';
+import ShoppingList from './components/ShoppingList';
+import MealPlanner from './components/MealPlanner';
 import RecipeDetail from './components/RecipeDetail';
+import TimerTray from './components/TimerTray';
 import { ErrorBoundary } from './components/ErrorBoundary';
 
 const App: React.FC = () => {
@@ -16,7 +21,11 @@ const App: React.FC = () => {
             <Routes>
               <Route path="/" element={<Home />} />
               <Route path="/search/:query" element={<SearchResults />} />
-              <Route path="/recipe/:name" element={<RecipeDetail />} />
+              <Route path="/pantry" element={<PantryResults />} />
+              <Route path="/saved" element={<SavedRecipes />} />
+              <Route path="/shopping-list" element={<ShoppingList />} />
+              <Route path="/planner" element={<MealPlanner />} />
+              <Route path="/recipe/:slug" element={<RecipeDetail />} />
             </Routes>
           </main>
           <footer className="bg-dark text-white py-6 border-t border-gray-800">
@@ -26,6 +35,7 @@ const App: React.FC = () => {
               </p>
             </div>
           </footer>
+          <TimerTray />
         </div>
       </Router>
     </ErrorBoundary>
@@ -0,0 +1,113 @@
+/**
+ * Server-side configuration, read from the deployment's environment variables
+ * Provider keys stay here and never reach the browser bundle
+ */
+
+import { LlmProviderName } from '../../services/llm/provider';
+import {
+  DEFAULT_LLM_MODELS,
+  DEFAULT_OPENAI_BASE_URL,
+  LlmSettings,
+} from '../../services/llm/factory';
+
+/**
+ * Reads the language model settings
+ * Throws an error if the chosen provider is unknown or its key is missing
+ */
+export function readLlmSettings(env: NodeJS.ProcessEnv = process.env): LlmSettings {
+  const provider = (env.LLM_PROVIDER || 'gemini') as LlmProviderName;
+  const geminiApiKey = env.GEMINI_API_KEY ?? '';
+  const openAiApiKey = env.OPENAI_API_KEY ?? '';
+  const openAiBaseUrl = env.OPENAI_BASE_URL || DEFAULT_OPENAI_BASE_URL;
+
+  // `in` would also accept inherited names such as "toString"
+  if (!Object.hasOwn(DEFAULT_LLM_MODELS, provider)) {
+    throw new Error(
+      `Unknown LLM_PROVIDER "${provider}". ` +
+        `Use one of: ${Object.keys(DEFAULT_LLM_MODELS).join(', ')}.`
+    );
+  }
+
+  if (provider === 'gemini' && !geminiApiKey) {
+    throw new Error('Missing required environment variable GEMINI_API_KEY');
+  }
+
+  // Local OpenAI-compatible servers usually run without a key
+  if (provider === 'openai' && !openAiApiKey && openAiBaseUrl === DEFAULT_OPENAI_BASE_URL) {
+    throw new Error('Missing required environment variable OPENAI_API_KEY');
+  }
+
+  return {
+    provider,
+    model: env.LLM_MODEL || DEFAULT_LLM_MODELS[provider],
+    geminiApiKey,
+    openAiApiKey,
+    openAiBaseUrl,
+  };
+}
+
+/**
+ * Reads the Unsplash key; images fall back to a stock photo without one
+ */
+export function readUnsplashAccessKey(env: NodeJS.ProcessEnv = process.env): string {
+  return env.UNSPLASH_ACCESS_KEY ?? '';
+}
+
+const readPositiveInt = (value: string | undefined, fallback: number): number => {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export interface ModelLimits {
+  // Calls to the provider per minute, across all clients
+  requestsPerMinute: number;
+  // Calls to the provider per calendar day (UTC), across all clients
+  dailyBudget: number;
+}
+
+const DEFAULT_MODEL_LIMITS: ModelLimits = {
+  requestsPerMinute: 30,
+  dailyBudget: 1000,
+};
+
+export interface ClientLimits {
+  // Requests one client IP may make per minute to the endpoints that call the model
+  modelRequestsPerMinute: number;
+  // Requests one client IP may make per minute for photos; a results page asks for several
+  imageRequestsPerMinute: number;
+}
+
+const DEFAULT_CLIENT_LIMITS: ClientLimits = {
+  modelRequestsPerMinute: 20,
+  imageRequestsPerMinute: 60,
+};
+
+/**
+ * Reads the limits on calls to the model provider, falling back to the defaults for unset
+ * or invalid values
+ */
+export function readModelLimits(env: NodeJS.ProcessEnv = process.env): ModelLimits {
+  return {
+    requestsPerMinute: readPositiveInt(
+      env.MODEL_REQUESTS_PER_MINUTE,
+      DEFAULT_MODEL_LIMITS.requestsPerMinute
+    ),
+    dailyBudget: readPositiveInt(env.MODEL_DAILY_BUDGET, DEFAULT_MODEL_LIMITS.dailyBudget),
+  };
+}
+
+/**
+ * Reads the per-client request limits, falling back to the defaults for unset or invalid values
+ */
+export function readClientLimits(env: NodeJS.ProcessEnv = process.env): ClientLimits {
+  return {
+    modelRequestsPerMinute: readPositiveInt(
+      env.API_MODEL_REQUESTS_PER_IP_PER_MINUTE,
+      DEFAULT_CLIENT_LIMITS.modelRequestsPerMinute
+    ),
+    imageRequestsPerMinute: readPositiveInt(
+      env.API_IMAGE_REQUESTS_PER_IP_PER_MINUTE,
+      DEFAULT_CLIENT_LIMITS.imageRequestsPerMinute
+    ),
+  };
+}
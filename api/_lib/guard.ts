@@ -0,0 +1,102 @@
+/**
+ * Keeps the /api endpoints for the app itself: other sites' pages may not call them, and each
+ * client IP gets a limited number of requests per minute
+ * Counts live in memory, so on a serverless host every running instance limits on its own
+ */
+
+import { ClientLimits, readClientLimits } from './config';
+import { HttpError } from './http';
+
+export type RequestKind = 'model' | 'image';
+
+const WINDOW_MS = 60_000;
+// Past this many tracked clients, the ones whose window has ended are forgotten
+const MAX_TRACKED_CLIENTS = 10_000;
+
+interface ClientWindow {
+  start: number;
+  count: number;
+}
+
+const LIMIT_FIELDS: { [kind in RequestKind]: keyof ClientLimits } = {
+  model: 'modelRequestsPerMinute',
+  image: 'imageRequestsPerMinute',
+};
+
+const windows: { [kind in RequestKind]: Map<string, ClientWindow> } = {
+  model: new Map(),
+  image: new Map(),
+};
+
+let limits: ClientLimits | null = null;
+
+/**
+ * The caller's address as reported by the platform's proxy; all unknown callers share one count
+ */
+const getClientIp = (request: Request): string =>
+  request.headers.get('x-forwarded-for')?.split(',')[0]?.trim() ||
+  request.headers.get('x-real-ip') ||
+  'unknown';
+
+/**
+ * Browsers say where a request comes from, so a page on another site is refused
+ * Clients that send neither header are not browsers and are held back by the IP limit alone
+ */
+const checkOrigin = (request: Request) => {
+  const origin = request.headers.get('origin');
+  if (origin) {
+    let originHost: string;
+    try {
+      originHost = new URL(origin).host;
+    } catch {
+      throw new HttpError(403, 'Cross-origin requests are not allowed');
+    }
+    const hosts = [new URL(request.url).host, request.headers.get('x-forwarded-host')];
+    if (!hosts.includes(originHost)) {
+      throw new HttpError(403, 'Cross-origin requests are not allowed');
+    }
+    return;
+  }
+
+  const fetchSite = request.headers.get('sec-fetch-site');
+  if (fetchSite && fetchSite !== 'same-origin' && fetchSite !== 'none') {
+    throw new HttpError(403, 'Cross-origin requests are not allowed');
+  }
+};
+
+const checkRateLimit = (request: Request, kind: RequestKind) => {
+  limits ??= readClientLimits();
+  const limit = limits[LIMIT_FIELDS[kind]];
+  const clients = windows[kind];
+  const now = Date.now();
+
+  if (clients.size > MAX_TRACKED_CLIENTS) {
+    for (const [ip, window] of clients) {
+      if (now - window.start >= WINDOW_MS) clients.delete(ip);
+    }
+  }
+
+  const ip = getClientIp(request);
+  const current = clients.get(ip);
+  if (!current || now - current.start >= WINDOW_MS) {
+    clients.set(ip, { start: now, count: 1 });
+    return;
+  }
+  if (current.count >= limit) {
+    throw new HttpError(
+      429,
+      'Too many requests, try again in a minute',
+      (current.start + WINDOW_MS - now) / 1000
+    );
+  }
+  current.count++;
+};
+
+/**
+ * Refuses a request from another site, or from a client over its per-minute limit
+ * Call it first in every endpoint, before reading the body
+ */
+export const guardRequest = (request: Request, kind: RequestKind): void => {
+  checkOrigin(request);
+  checkRateLimit(request, kind);
+};
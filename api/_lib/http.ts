@@ -0,0 +1,175 @@
+/**
+ * Request parsing and JSON responses shared by the /api endpoints
+ */
+
+import { Allergen, DietaryTag, Difficulty, SearchFilters } from '../../types';
+import { LlmError, isQuotaError } from '../../services/llm/provider';
+import { ALLERGENS } from '../../utils/allergens';
+import { DIETARY_TAGS, DIFFICULTIES } from '../../utils/searchFilters';
+
+// Longest free text accepted from the browser; anything longer is not a real query
+const MAX_TEXT_LENGTH = 2000;
+const MAX_LIST_ITEMS = 50;
+
+/**
+ * A request the endpoint refuses, answered with its status and message
+ * A refusal that passes with time says when to try again, sent as Retry-After
+ */
+export class HttpError extends Error {
+  readonly status: number;
+  readonly retryAfterSeconds?: number;
+
+  constructor(status: number, message: string, retryAfterSeconds?: number) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+export const jsonResponse = (
+  body: unknown,
+  status = 200,
+  headers: Record<string, string> = {}
+): Response =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store', ...headers },
+  });
+
+/**
+ * Streams text as it is produced
+ * The first piece is awaited up front, so a request that fails straight away still gets
+ * a proper error status; later failures can only cut the stream short
+ */
+export const streamResponse = async (chunks: AsyncIterable<string>): Promise<Response> => {
+  const iterator = chunks[Symbol.asyncIterator]();
+  const first = await iterator.next();
+  const encoder = new TextEncoder();
+
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      if (first.done) {
+        controller.close();
+      } else {
+        controller.enqueue(encoder.encode(first.value));
+      }
+    },
+    async pull(controller) {
+      try {
+        const next = await iterator.next();
+        if (next.done) {
+          controller.close();
+        } else {
+          controller.enqueue(encoder.encode(next.value));
+        }
+      } catch (error) {
+        console.error('[API] Stream failed:', error);
+        controller.error(error);
+      }
+    },
+    async cancel() {
+      await iterator.return?.();
+    },
+  });
+
+  return new Response(body, {
+    headers: { 'Content-Type': 'text/plain; charset=utf-8', 'Cache-Control': 'no-store' },
+  });
+};
+
+/**
+ * Wraps an endpoint so whatever it returns is sent as JSON (a Response, e.g. a stream, is sent
+ * as is), and whatever it throws becomes an error response: quota errors keep their 429,
+ * other provider failures are a 502
+ */
+export const handleJson =
+  (handler: (request: Request) => Promise<unknown>) =>
+  async (request: Request): Promise<Response> => {
+    try {
+      const result = await handler(request);
+      return result instanceof Response ? result : jsonResponse(result);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        const retryAfter = error.retryAfterSeconds;
+        return jsonResponse(
+          { error: error.message },
+          error.status,
+          retryAfter === undefined ? {} : { 'Retry-After': String(Math.ceil(retryAfter)) }
+        );
+      }
+      console.error(`[API] ${new URL(request.url).pathname} failed:`, error);
+      if (isQuotaError(error)) {
+        return jsonResponse({ error: 'Model quota exhausted' }, 429);
+      }
+      if (error instanceof LlmError) {
+        return jsonResponse({ error: 'Model request failed' }, 502);
+      }
+      return jsonResponse({ error: 'Internal server error' }, 500);
+    }
+  };
+
+export const readJsonBody = async (request: Request): Promise<Record<string, unknown>> => {
+  try {
+    const body: unknown = await request.json();
+    if (body && typeof body === 'object' && !Array.isArray(body)) {
+      return body as Record<string, unknown>;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new HttpError(400, 'Request body must be a JSON object');
+};
+
+export const readText = (value: unknown, field: string): string => {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new HttpError(400, `"${field}" must be a non-empty string`);
+  }
+  if (value.length > MAX_TEXT_LENGTH) {
+    throw new HttpError(400, `"${field}" is too long`);
+  }
+  return value.trim();
+};
+
+export const readTextList = (value: unknown, field: string): string[] => {
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_LIST_ITEMS) {
+    throw new HttpError(400, `"${field}" must be a list of 1-${MAX_LIST_ITEMS} strings`);
+  }
+  return value.map((item) => readText(item, field));
+};
+
+const readList = <T extends string>(value: unknown, allowed: T[]): T[] =>
+  Array.isArray(value) ? allowed.filter((item) => value.includes(item)) : [];
+
+const readPositiveInt = (value: unknown): number | undefined =>
+  typeof value === 'number' && Number.isInteger(value) && value > 0 ? value : undefined;
+
+/**
+ * Rebuilds search filters from a request, keeping only known fields and values,
+ * since they end up in the prompt
+ */
+export const readConstraints = (value: unknown): SearchFilters => {
+  const source = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  const filters: SearchFilters = {};
+
+  if (typeof source.category === 'string' && /^[\p{L} -]{1,40}$/u.test(source.category)) {
+    filters.category = source.category;
+  }
+
+  const maxTotalMinutes = readPositiveInt(source.maxTotalMinutes);
+  if (maxTotalMinutes) filters.maxTotalMinutes = maxTotalMinutes;
+
+  const maxKcal = readPositiveInt(source.maxKcal);
+  if (maxKcal) filters.maxKcal = maxKcal;
+
+  const difficulty = readList<Difficulty>(source.difficulty, DIFFICULTIES);
+  if (difficulty.length > 0) filters.difficulty = difficulty;
+
+  const dietaryTags = readList<DietaryTag>(source.dietaryTags, DIETARY_TAGS);
+  if (dietaryTags.length > 0) filters.dietaryTags = dietaryTags;
+
+  const excludedAllergens = readList<Allergen>(source.excludedAllergens, ALLERGENS);
+  if (excludedAllergens.length > 0) filters.excludedAllergens = excludedAllergens;
+
+  return filters;
+};
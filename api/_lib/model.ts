@@ -0,0 +1,19 @@
+/**
+ * The model operations every endpoint shares, built on first use so a misconfigured
+ * provider surfaces as an error response instead of a crashed function
+ * Provider calls are held to the deployment's rate limit and daily budget
+ */
+
+import { ModelOperations, createModelOperations } from '../../services/modelOperations';
+import { createLlmProvider } from '../../services/llm/factory';
+import { readLlmSettings, readModelLimits } from './config';
+import { limitModelUsage } from './modelLimits';
+
+let operations: ModelOperations | null = null;
+
+export const getModelOperations = (): ModelOperations => {
+  operations ??= createModelOperations(
+    limitModelUsage(createLlmProvider(readLlmSettings()), readModelLimits())
+  );
+  return operations;
+};
@@ -0,0 +1,70 @@
+/**
+ * Keeps calls to the model provider inside its rate limit and the deployment's daily budget
+ * Every call is checked before it is sent, so a refused request costs nothing
+ * Counts live in memory, so on a serverless host every running instance counts on its own
+ */
+
+import { LlmProvider } from '../../services/llm/provider';
+import { ModelLimits } from './config';
+import { HttpError } from './http';
+
+const MINUTE_MS = 60_000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+// UTC date, YYYY-MM-DD
+const today = (): string => new Date().toISOString().slice(0, 10);
+
+/**
+ * Wraps a provider so each call first spends from the per-minute limit and the daily budget,
+ * and is refused with a 429 once either is used up
+ */
+export const limitModelUsage = (provider: LlmProvider, limits: ModelLimits): LlmProvider => {
+  // Send times of the calls made in the last minute, oldest first
+  const recentCalls: number[] = [];
+  let usage = { date: today(), used: 0 };
+
+  const spend = () => {
+    const now = Date.now();
+
+    if (usage.date !== today()) usage = { date: today(), used: 0 };
+    if (usage.used >= limits.dailyBudget) {
+      throw new HttpError(
+        429,
+        'Daily model budget used up, try again tomorrow',
+        (DAY_MS - (now % DAY_MS)) / 1000
+      );
+    }
+
+    while (recentCalls.length > 0 && now - (recentCalls[0] ?? 0) >= MINUTE_MS) {
+      recentCalls.shift();
+    }
+    if (recentCalls.length >= limits.requestsPerMinute) {
+      throw new HttpError(
+        429,
+        'Model rate limit reached, try again shortly',
+        ((recentCalls[0] ?? now) + MINUTE_MS - now) / 1000
+      );
+    }
+
+    recentCalls.push(now);
+    usage.used++;
+  };
+
+  return {
+    name: provider.name,
+    model: provider.model,
+    generateText: (prompt) => {
+      spend();
+      return provider.generateText(prompt);
+    },
+    generateJson: (prompt, schema) => {
+      spend();
+      return provider.generateJson(prompt, schema);
+    },
+    // Checked when the stream is first read, which the endpoint does before replying
+    async *streamJson(prompt, schema) {
+      spend();
+      yield* provider.streamJson(prompt, schema);
+    },
+  };
+};
@@ -0,0 +1,47 @@
+/**
+ * GET /api/image?query=&width=&height=
+ * Resolves to { url } of an Unsplash photo for the query, or a stock food photo
+ * when there is no match or no key
+ */
+
+import { readUnsplashAccessKey } from './_lib/config';
+import { guardRequest } from './_lib/guard';
+import { handleJson, readText } from './_lib/http';
+
+const DEFAULT_IMAGE = 'https://images.unsplash.com/photo-1504674900247-0877df9cc836';
+const MAX_DIMENSION = 2000;
+
+const readDimension = (value: string | null, fallback: number): number => {
+  const parsed = Number(value);
+  return Number.isInteger(parsed) && parsed > 0 ? Math.min(parsed, MAX_DIMENSION) : fallback;
+};
+
+export const GET = handleJson(async (request) => {
+  guardRequest(request, 'image');
+  const params = new URL(request.url).searchParams;
+  const query = readText(params.get('query'), 'query');
+  const width = readDimension(params.get('width'), 800);
+  const height = readDimension(params.get('height'), 600);
+  const fallback = { url: `${DEFAULT_IMAGE}?w=${width}&h=${height}&fit=crop&q=80` };
+
+  const accessKey = readUnsplashAccessKey();
+  if (!accessKey) return fallback;
+
+  try {
+    const response = await fetch(
+      `https://api.unsplash.com/search/photos?query=${encodeURIComponent(`${query} food dish`)}&per_page=1&orientation=landscape`,
+      { headers: { Authorization: `Client-ID ${accessKey}` } }
+    );
+
+    if (response.ok) {
+      const data = await response.json();
+      if (data.results?.[0]) {
+        return { url: `${data.results[0].urls.raw}&w=${width}&h=${height}&fit=crop&q=80` };
+      }
+    }
+  } catch (error) {
+    console.error('[Image] Fetch failed:', error);
+  }
+
+  return fallback;
+});
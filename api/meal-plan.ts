@@ -0,0 +1,17 @@
+/**
+ * POST /api/meal-plan
+ * { request, constraints } plans a week of meals described in plain words
+ */
+
+import { getModelOperations } from './_lib/model';
+import { guardRequest } from './_lib/guard';
+import { handleJson, readConstraints, readJsonBody, readText } from './_lib/http';
+
+export const POST = handleJson(async (request) => {
+  guardRequest(request, 'model');
+  const body = await readJsonBody(request);
+  return getModelOperations().generateMealPlan(
+    readText(body.request, 'request'),
+    readConstraints(body.constraints)
+  );
+});
@@ -0,0 +1,21 @@
+/**
+ * POST /api/recipe
+ * { name, constraints } generates the full recipe for a dish;
+ * with stream: true its JSON is streamed as plain text while it is written
+ */
+
+import { getModelOperations } from './_lib/model';
+import { guardRequest } from './_lib/guard';
+import { handleJson, readConstraints, readJsonBody, readText, streamResponse } from './_lib/http';
+
+export const POST = handleJson(async (request) => {
+  guardRequest(request, 'model');
+  const body = await readJsonBody(request);
+  const name = readText(body.name, 'name');
+  const constraints = readConstraints(body.constraints);
+
+  if (body.stream === true) {
+    return streamResponse(getModelOperations().streamRecipe(name, constraints));
+  }
+  return getModelOperations().generateRecipe(name, constraints);
+});
@@ -0,0 +1,23 @@
+/**
+ * POST /api/search
+ * { query, constraints } generates recipes for a search;
+ * { pantry, constraints } generates recipes that use up a list of ingredients
+ */
+
+import { getModelOperations } from './_lib/model';
+import { guardRequest } from './_lib/guard';
+import { handleJson, readConstraints, readJsonBody, readText, readTextList } from './_lib/http';
+
+export const POST = handleJson(async (request) => {
+  guardRequest(request, 'model');
+  const body = await readJsonBody(request);
+  const constraints = readConstraints(body.constraints);
+
+  if (body.pantry !== undefined) {
+    return getModelOperations().searchByIngredients(
+      readTextList(body.pantry, 'pantry'),
+      constraints
+    );
+  }
+  return getModelOperations().searchRecipes(readText(body.query, 'query'), constraints);
+});
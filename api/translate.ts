@@ -0,0 +1,46 @@
+/**
+ * POST /api/translate
+ * { kind: 'text', text, targetLang } and { kind: 'query', text } resolve to { result: string };
+ * { kind: 'recipe', content, targetLang } resolves to { result } holding the translated JSON
+ */
+
+import { TranslationRequest } from '../services/modelOperations';
+import { getModelOperations } from './_lib/model';
+import { guardRequest } from './_lib/guard';
+import { HttpError, handleJson, readJsonBody, readText } from './_lib/http';
+
+// Recipes are sent whole, so they get more room than free text
+const MAX_CONTENT_LENGTH = 50_000;
+
+const readLanguage = (value: unknown): string => {
+  if (typeof value !== 'string' || !/^[a-z]{2}(-[A-Z]{2})?$/.test(value)) {
+    throw new HttpError(400, '"targetLang" must be a language code');
+  }
+  return value;
+};
+
+const readTranslationRequest = (body: Record<string, unknown>): TranslationRequest => {
+  switch (body.kind) {
+    case 'text':
+      return {
+        kind: 'text',
+        text: readText(body.text, 'text'),
+        targetLang: readLanguage(body.targetLang),
+      };
+    case 'query':
+      return { kind: 'query', text: readText(body.text, 'text') };
+    case 'recipe':
+      if (!body.content || JSON.stringify(body.content).length > MAX_CONTENT_LENGTH) {
+        throw new HttpError(400, '"content" must be a recipe of reasonable size');
+      }
+      return { kind: 'recipe', content: body.content, targetLang: readLanguage(body.targetLang) };
+    default:
+      throw new HttpError(400, '"kind" must be one of: text, query, recipe');
+  }
+};
+
+export const POST = handleJson(async (request) => {
+  guardRequest(request, 'model');
+  const body = await readJsonBody(request);
+  return { result: await getModelOperations().translate(readTranslationRequest(body)) };
+});
@@ -0,0 +1,308 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  ChevronLeft,
+  ChevronRight,
+  ListChecks,
+  Mic,
+  MicOff,
+  Timer,
+  Volume2,
+  VolumeX,
+  X,
+} from 'lucide-react';
+import { Ingredient, RecipeDetail } from '../types';
+import { useUnitSystem } from '../hooks/useUnitSystem';
+import { useWakeLock } from '../hooks/useWakeLock';
+import { useKitchenTimers } from '../hooks/useKitchenTimers';
+import { useVoiceCommands } from '../hooks/useVoiceCommands';
+import { formatIngredient } from '../utils/ingredients';
+import { convertIngredient, convertTemperatures } from '../utils/units';
+import { findStepDurations } from '../utils/stepTimers';
+import { VoiceCommand, isSpeechSynthesisSupported, speak, stopSpeaking } from '../utils/speech';
+
+interface CookingModeProps {
+  recipe: RecipeDetail;
+  // Scaled to the servings being cooked
+  ingredients: Ingredient[];
+  onClose: () => void;
+}
+
+// Horizontal travel, in pixels, that counts as a swipe rather than a tap
+const SWIPE_THRESHOLD = 60;
+
+/**
+ * Fullscreen view that walks through a recipe one instruction at a time
+ * Steps can be read aloud and driven by voice where the browser supports speech
+ */
+const CookingMode: React.FC<CookingModeProps> = ({ recipe, ingredients, onClose }) => {
+  const { t, i18n } = useTranslation();
+  const { unitSystem } = useUnitSystem();
+  const [stepIndex, setStepIndex] = useState(0);
+  const [showIngredients, setShowIngredients] = useState(false);
+  const [readAloud, setReadAloud] = useState(false);
+  const [voiceEnabled, setVoiceEnabled] = useState(false);
+  const [heard, setHeard] = useState('');
+  const { startTimer } = useKitchenTimers();
+  const touchStart = useRef<{ x: number; y: number } | null>(null);
+  const closeButtonRef = useRef<HTMLButtonElement>(null);
+
+  useWakeLock(true);
+
+  const stepCount = recipe.instructions.length;
+  const step = convertTemperatures(recipe.instructions[stepIndex] ?? '', unitSystem);
+  const durations = findStepDurations(recipe.instructions[stepIndex] ?? '');
+
+  const ingredientLines = ingredients.map((ingredient) =>
+    formatIngredient(convertIngredient(ingredient, unitSystem))
+  );
+  const canSpeak = isSpeechSynthesisSupported();
+
+  const goTo = useCallback(
+    (index: number) => setStepIndex(Math.min(stepCount - 1, Math.max(0, index))),
+    [stepCount]
+  );
+
+  const startStepTimer = (duration: { text: string; seconds: number }) =>
+    startTimer(
+      t('cookingMode.timerLabel', { recipe: recipe.name, duration: duration.text }),
+      duration.seconds
+    );
+
+  const handleVoiceCommand = (command: VoiceCommand, transcript: string) => {
+    setHeard(transcript);
+    const firstDuration = durations[0];
+    switch (command) {
+      case 'next':
+        goTo(stepIndex + 1);
+        break;
+      case 'previous':
+        goTo(stepIndex - 1);
+        break;
+      case 'repeat':
+        speak(step, i18n.language);
+        break;
+      case 'startTimer':
+        if (firstDuration) {
+          startStepTimer(firstDuration);
+          speak(t('cookingMode.timerStarted', { duration: firstDuration.text }), i18n.language);
+        } else {
+          speak(t('cookingMode.noTimer'), i18n.language);
+        }
+        break;
+      case 'ingredients':
+        setShowIngredients(true);
+        speak(ingredientLines.join('. '), i18n.language);
+        break;
+    }
+  };
+
+  const {
+    isSupported: canListen,
+    isListening,
+    isBlocked,
+  } = useVoiceCommands(voiceEnabled, handleVoiceCommand);
+
+  // Read each step as it comes up
+  useEffect(() => {
+    if (readAloud) speak(step, i18n.language);
+  }, [readAloud, step, i18n.language]);
+
+  useEffect(() => stopSpeaking, []);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') {
+        onClose();
+      } else if (e.key === 'ArrowRight' || e.key === 'PageDown' || e.key === ' ') {
+        e.preventDefault();
+        setStepIndex((index) => Math.min(stepCount - 1, index + 1));
+      } else if (e.key === 'ArrowLeft' || e.key === 'PageUp') {
+        e.preventDefault();
+        setStepIndex((index) => Math.max(0, index - 1));
+      }
+    };
+
+    // Keep the page behind the overlay from scrolling
+    const previousOverflow = document.body.style.overflow;
+    document.body.style.overflow = 'hidden';
+    document.addEventListener('keydown', handleKeyDown);
+    closeButtonRef.current?.focus();
+
+    return () => {
+      document.body.style.overflow = previousOverflow;
+      document.removeEventListener('keydown', handleKeyDown);
+    };
+  }, [onClose, stepCount]);
+
+  const handleTouchEnd = (e: React.TouchEvent) => {
+    const start = touchStart.current;
+    const touch = e.changedTouches[0];
+    touchStart.current = null;
+    if (!start || !touch) return;
+
+    const dx = touch.clientX - start.x;
+    const dy = touch.clientY - start.y;
+    if (Math.abs(dx) > SWIPE_THRESHOLD && Math.abs(dx) > Math.abs(dy)) {
+      goTo(dx < 0 ? stepIndex + 1 : stepIndex - 1);
+    }
+  };
+
+  return (
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label={t('cookingMode.title', { recipe: recipe.name })}
+      className="fixed inset-0 z-[60] flex flex-col bg-dark text-white"
+      onTouchStart={(e) => {
+        const touch = e.touches[0];
+        touchStart.current = touch ? { x: touch.clientX, y: touch.clientY } : null;
+      }}
+      onTouchEnd={handleTouchEnd}
+    >
+      <div className="flex items-center justify-between gap-4 px-6 py-4 border-b border-white/10">
+        <div className="min-w-0">
+          <p className="text-xs uppercase tracking-wider text-primary font-bold">
+            {t('cookingMode.stepOf', { current: stepIndex + 1, total: stepCount })}
+          </p>
+          <h2 className="truncate font-serif text-lg font-bold">{recipe.name}</h2>
+        </div>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => setShowIngredients((shown) => !shown)}
+            className={`p-2 rounded-full hover:bg-white/10 ${
+              showIngredients ? 'text-primary' : 'text-gray-300 hover:text-white'
+            }`}
+            aria-label={t('cookingMode.ingredients')}
+            aria-pressed={showIngredients}
+          >
+            <ListChecks size={24} />
+          </button>
+          {canSpeak && (
+            <button
+              onClick={() => {
+                if (readAloud) stopSpeaking();
+                setReadAloud(!readAloud);
+              }}
+              className={`p-2 rounded-full hover:bg-white/10 ${
+                readAloud ? 'text-primary' : 'text-gray-300 hover:text-white'
+              }`}
+              aria-label={t('cookingMode.readAloud')}
+              aria-pressed={readAloud}
+            >
+              {readAloud ? <Volume2 size={24} /> : <VolumeX size={24} />}
+            </button>
+          )}
+          {canListen && (
+            <button
+              onClick={() => setVoiceEnabled(!voiceEnabled)}
+              className={`p-2 rounded-full hover:bg-white/10 ${
+                voiceEnabled ? 'text-primary' : 'text-gray-300 hover:text-white'
+              }`}
+              aria-label={t('cookingMode.voiceControl')}
+              aria-pressed={voiceEnabled}
+            >
+              {voiceEnabled ? <Mic size={24} /> : <MicOff size={24} />}
+            </button>
+          )}
+          <button
+            ref={closeButtonRef}
+            onClick={onClose}
+            className="p-2 rounded-full text-gray-300 hover:bg-white/10 hover:text-white"
+            aria-label={t('cookingMode.exit')}
+          >
+            <X size={28} />
+          </button>
+        </div>
+      </div>
+
+      {voiceEnabled && (
+        <div className="px-6 py-2 text-sm text-gray-300 bg-white/5 border-b border-white/10">
+          {isBlocked ? (
+            <span className="text-red-300">{t('cookingMode.microphoneBlocked')}</span>
+          ) : (
+            <>
+              <span className={isListening ? 'text-primary font-semibold' : ''}>
+                {isListening ? t('cookingMode.listening') : t('cookingMode.startingVoice')}
+              </span>{' '}
+              {t('cookingMode.voiceHint')}
+              {heard && (
+                <span className="ml-2 text-gray-400">
+                  {t('cookingMode.heard', { transcript: heard })}
+                </span>
+              )}
+            </>
+          )}
+        </div>
+      )}
+
+      {showIngredients && (
+        <div className="max-h-[40vh] overflow-y-auto px-6 py-4 border-b border-white/10 bg-white/5">
+          <h3 className="mb-2 text-xs uppercase tracking-wider text-primary font-bold">
+            {t('recipeDetail.ingredients')}
+          </h3>
+          <ul className="grid gap-x-8 gap-y-1 sm:grid-cols-2 text-lg">
+            {ingredientLines.map((line, idx) => (
+              <li key={idx}>{line}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <div className="h-1 bg-white/10">
+        <div
+          className="h-full bg-primary transition-all duration-300"
+          style={{ width: `${((stepIndex + 1) / Math.max(1, stepCount)) * 100}%` }}
+        />
+      </div>
+
+      <div className="flex-1 overflow-y-auto flex flex-col items-center justify-center px-6 py-10 text-center">
+        <p className="max-w-4xl text-3xl sm:text-5xl leading-snug font-medium" aria-live="polite">
+          {step}
+        </p>
+
+        {durations.length > 0 && (
+          <div className="mt-10 flex flex-wrap justify-center gap-3">
+            {durations.map((duration, idx) => (
+              <button
+                key={idx}
+                onClick={() => startStepTimer(duration)}
+                className="inline-flex items-center gap-2 rounded-full bg-primary px-5 py-3 text-lg font-semibold hover:bg-orange-600 transition-colors"
+              >
+                <Timer size={20} />
+                {t('cookingMode.startTimer', { duration: duration.text })}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center justify-between gap-4 px-6 py-5 border-t border-white/10">
+        <button
+          onClick={() => goTo(stepIndex - 1)}
+          disabled={stepIndex === 0}
+          className="inline-flex items-center gap-2 rounded-full px-5 py-3 text-lg font-semibold bg-white/10 hover:bg-white/20 disabled:opacity-30 disabled:hover:bg-white/10"
+        >
+          <ChevronLeft size={24} /> {t('cookingMode.previous')}
+        </button>
+        {stepIndex < stepCount - 1 ? (
+          <button
+            onClick={() => goTo(stepIndex + 1)}
+            className="inline-flex items-center gap-2 rounded-full px-5 py-3 text-lg font-semibold bg-primary hover:bg-orange-600"
+          >
+            {t('cookingMode.next')} <ChevronRight size={24} />
+          </button>
+        ) : (
+          <button
+            onClick={onClose}
+            className="inline-flex items-center gap-2 rounded-full px-5 py-3 text-lg font-semibold bg-green-600 hover:bg-green-700"
+          >
+            {t('cookingMode.finish')}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default CookingMode;
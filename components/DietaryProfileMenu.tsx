@@ -0,0 +1,114 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { useTranslation } from 'react-i18next';
+import { ShieldCheck, X } from 'lucide-react';
+import { Allergen, DietaryTag } from '../types';
+import { useDietaryProfile } from '../hooks/useDietaryProfile';
+import { ALLERGENS } from '../utils/allergens';
+import { DIETARY_TAGS } from '../utils/searchFilters';
+
+const toggle = <T,>(list: T[], value: T): T[] =>
+  list.includes(value) ? list.filter((item) => item !== value) : [...list, value];
+
+const DietaryProfileMenu: React.FC = () => {
+  const { t } = useTranslation();
+  const { profile, setProfile } = useDietaryProfile();
+  const [isOpen, setIsOpen] = useState(false);
+  const dropdownRef = useRef<HTMLDivElement>(null);
+
+  const activeCount = profile.diets.length + profile.excludedAllergens.length;
+
+  // Close dropdown when clicking outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+        setIsOpen(false);
+      }
+    };
+
+    document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, []);
+
+  return (
+    <div className="relative" ref={dropdownRef}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`flex items-center gap-2 px-3 py-2 rounded-lg transition-colors border ${
+          activeCount > 0
+            ? 'bg-green-50 border-green-200 text-green-700'
+            : 'bg-white/10 hover:bg-white/20 border-white/20 text-gray-600'
+        }`}
+        aria-label={t('profile.title')}
+        aria-expanded={isOpen}
+      >
+        <ShieldCheck size={18} />
+        {activeCount > 0 && <span className="text-sm font-semibold">{activeCount}</span>}
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-72 bg-white rounded-xl shadow-2xl border border-gray-100 py-2 z-50 animate-fade-in">
+          <div className="flex items-center justify-between px-4 py-2 border-b border-gray-100">
+            <span className="text-xs font-semibold text-gray-400 uppercase tracking-wider">
+              {t('profile.title')}
+            </span>
+            {activeCount > 0 && (
+              <button
+                onClick={() => setProfile({ diets: [], excludedAllergens: [] })}
+                className="flex items-center gap-1 text-xs font-medium text-gray-500 hover:text-primary"
+              >
+                <X size={14} /> {t('filters.clear')}
+              </button>
+            )}
+          </div>
+
+          <p className="px-4 pt-3 text-xs text-gray-500">{t('profile.description')}</p>
+
+          <fieldset className="px-4 pt-3">
+            <legend className="text-xs font-semibold uppercase text-gray-500 mb-2">
+              {t('profile.diets')}
+            </legend>
+            <div className="grid grid-cols-2 gap-2">
+              {DIETARY_TAGS.map((tag: DietaryTag) => (
+                <label key={tag} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={profile.diets.includes(tag)}
+                    onChange={() => setProfile({ ...profile, diets: toggle(profile.diets, tag) })}
+                    className="rounded border-gray-300 text-primary focus:ring-primary"
+                  />
+                  {t(`dietary.${tag}`)}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+
+          <fieldset className="px-4 py-3">
+            <legend className="text-xs font-semibold uppercase text-gray-500 mb-2">
+              {t('profile.exclude')}
+            </legend>
+            <div className="grid grid-cols-2 gap-2">
+              {ALLERGENS.map((allergen: Allergen) => (
+                <label key={allergen} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={profile.excludedAllergens.includes(allergen)}
+                    onChange={() =>
+                      setProfile({
+                        ...profile,
+                        excludedAllergens: toggle(profile.excludedAllergens, allergen),
+                      })
+                    }
+                    className="rounded border-gray-300 text-primary focus:ring-primary"
+                  />
+                  {t(`allergens.${allergen}`)}
+                </label>
+              ))}
+            </div>
+          </fieldset>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DietaryProfileMenu;
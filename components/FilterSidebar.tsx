@@ -0,0 +1,174 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { SlidersHorizontal, X } from 'lucide-react';
+import { Category, DietaryTag, Difficulty, SearchFilters } from '../types';
+import { fetchCategories } from '../services/geminiService';
+import {
+  DIETARY_TAGS,
+  DIFFICULTIES,
+  MAX_KCAL_OPTIONS,
+  MAX_TIME_OPTIONS,
+  hasActiveFilters,
+} from '../utils/searchFilters';
+import { formatDuration, formatKcal } from '../utils/recipeMetrics';
+
+interface FilterSidebarProps {
+  filters: SearchFilters;
+  onChange: (filters: SearchFilters) => void;
+}
+
+const toggle = <T,>(list: T[] | undefined, value: T): T[] =>
+  list?.includes(value) ? list.filter((item) => item !== value) : [...(list ?? []), value];
+
+const FilterSidebar: React.FC<FilterSidebarProps> = ({ filters, onChange }) => {
+  const { t, i18n } = useTranslation();
+  const [categories, setCategories] = useState<Category[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchCategories().then((data) => {
+      if (!cancelled) setCategories(data);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [i18n.language]);
+
+  const update = (changes: Partial<SearchFilters>) => onChange({ ...filters, ...changes });
+
+  const selectClassName =
+    'w-full rounded-xl border border-gray-200 bg-white px-3 py-2 text-sm text-gray-700 focus:border-primary focus:outline-none focus:ring-2 focus:ring-primary/20';
+
+  return (
+    <aside
+      className="bg-white rounded-2xl border border-gray-100 shadow-sm p-6 space-y-6 h-fit"
+      aria-label={t('filters.title')}
+    >
+      <div className="flex items-center justify-between">
+        <h3 className="flex items-center gap-2 font-bold text-gray-900">
+          <SlidersHorizontal size={18} className="text-primary" /> {t('filters.title')}
+        </h3>
+        {hasActiveFilters(filters) && (
+          <button
+            onClick={() => onChange({})}
+            className="flex items-center gap-1 text-xs font-medium text-gray-500 hover:text-primary"
+          >
+            <X size={14} /> {t('filters.clear')}
+          </button>
+        )}
+      </div>
+
+      <div>
+        <label
+          htmlFor="filter-category"
+          className="block text-xs font-semibold uppercase text-gray-500 mb-2"
+        >
+          {t('filters.category')}
+        </label>
+        <select
+          id="filter-category"
+          value={filters.category ?? ''}
+          onChange={(e) => update({ category: e.target.value || undefined })}
+          className={selectClassName}
+        >
+          <option value="">{t('filters.any')}</option>
+          {categories.map((category) => (
+            <option key={category.id} value={category.name}>
+              {category.name}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label
+          htmlFor="filter-max-time"
+          className="block text-xs font-semibold uppercase text-gray-500 mb-2"
+        >
+          {t('filters.maxTime')}
+        </label>
+        <select
+          id="filter-max-time"
+          value={filters.maxTotalMinutes ?? ''}
+          onChange={(e) => update({ maxTotalMinutes: Number(e.target.value) || undefined })}
+          className={selectClassName}
+        >
+          <option value="">{t('filters.any')}</option>
+          {MAX_TIME_OPTIONS.map((minutes) => (
+            <option key={minutes} value={minutes}>
+              {t('filters.upTo', { value: formatDuration(t, minutes) })}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <div>
+        <label
+          htmlFor="filter-max-kcal"
+          className="block text-xs font-semibold uppercase text-gray-500 mb-2"
+        >
+          {t('filters.maxCalories')}
+        </label>
+        <select
+          id="filter-max-kcal"
+          value={filters.maxKcal ?? ''}
+          onChange={(e) => update({ maxKcal: Number(e.target.value) || undefined })}
+          className={selectClassName}
+        >
+          <option value="">{t('filters.any')}</option>
+          {MAX_KCAL_OPTIONS.map((kcal) => (
+            <option key={kcal} value={kcal}>
+              {t('filters.upTo', { value: formatKcal(t, kcal) })}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <fieldset>
+        <legend className="text-xs font-semibold uppercase text-gray-500 mb-2">
+          {t('recipes.difficulty')}
+        </legend>
+        <div className="flex flex-wrap gap-2">
+          {DIFFICULTIES.map((level: Difficulty) => {
+            const active = filters.difficulty?.includes(level) ?? false;
+            return (
+              <button
+                key={level}
+                onClick={() => update({ difficulty: toggle(filters.difficulty, level) })}
+                aria-pressed={active}
+                className={`px-3 py-1.5 rounded-full text-sm font-medium border transition-colors ${
+                  active
+                    ? 'bg-primary border-primary text-white'
+                    : 'bg-white border-gray-200 text-gray-600 hover:border-primary hover:text-primary'
+                }`}
+              >
+                {t(`difficulty.${level}`)}
+              </button>
+            );
+          })}
+        </div>
+      </fieldset>
+
+      <fieldset>
+        <legend className="text-xs font-semibold uppercase text-gray-500 mb-2">
+          {t('filters.dietary')}
+        </legend>
+        <div className="space-y-2">
+          {DIETARY_TAGS.map((tag: DietaryTag) => (
+            <label key={tag} className="flex items-center gap-2 text-sm text-gray-700">
+              <input
+                type="checkbox"
+                checked={filters.dietaryTags?.includes(tag) ?? false}
+                onChange={() => update({ dietaryTags: toggle(filters.dietaryTags, tag) })}
+                className="rounded border-gray-300 text-primary focus:ring-primary"
+              />
+              {t(`dietary.${tag}`)}
+            </label>
+          ))}
+        </div>
+      </fieldset>
+    </aside>
+  );
+};
+
+export default FilterSidebar;
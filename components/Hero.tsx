@@ -2,9 +2,13 @@ import React, { useState } from 'react';
 import { useTranslation } from 'react-i18next';
 import { Search, Loader2 } from 'lucide-react';
 import { useNavigate } from 'react-router-dom';
+import { parsePantryItems } from '../utils/pantry';
+
+type SearchMode = 'recipes' | 'pantry';
 
 const Hero: React.FC = () => {
   const { t } = useTranslation();
+  const [mode, setMode] = useState<SearchMode>('recipes');
   const [query, setQuery] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
   const navigate = useNavigate();
@@ -15,7 +19,12 @@ const Hero: React.FC = () => {
       setIsSubmitting(true);
       // Simulate a small delay for better UX feel before navigating
       setTimeout(() => {
-        navigate(`/search/${encodeURIComponent(query)}`);
+        if (mode === 'pantry') {
+          const items = parsePantryItems(query).join(',');
+          navigate(`/pantry?${new URLSearchParams({ items }).toString()}`);
+        } else {
+          navigate(`/search/${encodeURIComponent(query)}`);
+        }
         setIsSubmitting(false);
       }, 300);
     }
@@ -41,6 +50,27 @@ const Hero: React.FC = () => {
           {t('hero.subtitle')}
         </p>
 
+        <div
+          role="radiogroup"
+          aria-label={t('hero.searchMode')}
+          className="inline-flex rounded-full bg-white/10 backdrop-blur-sm p-1 mb-4 text-sm font-medium"
+        >
+          {(['recipes', 'pantry'] as SearchMode[]).map((option) => (
+            <button
+              key={option}
+              type="button"
+              role="radio"
+              aria-checked={mode === option}
+              onClick={() => setMode(option)}
+              className={`px-4 py-1.5 rounded-full transition-colors ${
+                mode === option ? 'bg-primary text-white' : 'text-gray-300 hover:text-white'
+              }`}
+            >
+              {t(option === 'pantry' ? 'hero.modePantry' : 'hero.modeRecipes')}
+            </button>
+          ))}
+        </div>
+
         <form onSubmit={handleSubmit} className="relative max-w-2xl mx-auto group">
           <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none">
             {isSubmitting ? (
@@ -52,7 +82,7 @@ const Hero: React.FC = () => {
           <input
             type="text"
             className="block w-full pl-12 pr-4 py-4 rounded-full border-2 border-transparent bg-white/10 backdrop-blur-sm text-white placeholder-gray-400 focus:bg-white focus:text-gray-900 focus:border-primary focus:outline-none focus:ring-4 focus:ring-primary/20 transition-all shadow-xl text-lg"
-            placeholder={t('hero.searchPlaceholder')}
+            placeholder={t(mode === 'pantry' ? 'hero.pantryPlaceholder' : 'hero.searchPlaceholder')}
             value={query}
             onChange={(e) => setQuery(e.target.value)}
           />
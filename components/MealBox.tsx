@@ -3,13 +3,18 @@ import { useNavigate } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import { RecipeSummary } from '../types';
 import { useRecipeImage } from '../hooks/useRecipeImage';
-import { Clock, Flame, ArrowRight } from 'lucide-react';
+import SaveRecipeButton from './SaveRecipeButton';
+import { formatDuration, formatKcal } from '../utils/recipeMetrics';
+import { getRecipePath } from '../utils/recipeSlug';
+import { Clock, Flame, ChefHat, ArrowRight, ShoppingBasket, CircleCheck } from 'lucide-react';
 
 interface MealBoxProps {
   meal: RecipeSummary;
+  // Set in pantry search to show what still needs buying
+  missingIngredients?: string[];
 }
 
-const MealBox: React.FC<MealBoxProps> = ({ meal }) => {
+const MealBox: React.FC<MealBoxProps> = ({ meal, missingIngredients }) => {
   const navigate = useNavigate();
   const { t } = useTranslation();
 
@@ -35,6 +40,7 @@ const MealBox: React.FC<MealBoxProps> = ({ meal }) => {
         <div className="absolute top-4 left-4 bg-white/90 backdrop-blur-sm px-3 py-1 rounded-full text-xs font-bold text-primary shadow-sm uppercase tracking-wide">
           {meal.category}
         </div>
+        <SaveRecipeButton recipeId={meal.id} className="absolute top-3 right-3" />
       </div>
 
       <div className="p-6 flex flex-col flex-grow">
@@ -43,19 +49,45 @@ const MealBox: React.FC<MealBoxProps> = ({ meal }) => {
         </h3>
         <p className="text-gray-500 text-sm mb-4 line-clamp-2 flex-grow">{meal.shortDescription}</p>
 
+        {missingIngredients &&
+          (missingIngredients.length > 0 ? (
+            <p
+              className="flex items-start gap-2 text-sm text-amber-700 bg-amber-50 rounded-xl px-3 py-2 mb-4"
+              title={missingIngredients.join(', ')}
+            >
+              <ShoppingBasket size={16} className="mt-0.5 shrink-0" />
+              <span>
+                <span className="font-semibold">
+                  {t('pantry.missing', { count: missingIngredients.length })}
+                </span>
+                <span className="block text-xs text-amber-600 line-clamp-1">
+                  {missingIngredients.join(', ')}
+                </span>
+              </span>
+            </p>
+          ) : (
+            <p className="flex items-center gap-2 text-sm font-semibold text-green-700 bg-green-50 rounded-xl px-3 py-2 mb-4">
+              <CircleCheck size={16} /> {t('pantry.complete')}
+            </p>
+          ))}
+
         <div className="flex items-center justify-between text-sm text-gray-500 mb-4 pt-4 border-t border-gray-100">
           <div className="flex items-center gap-1">
             <Clock size={16} className="text-primary" />
-            <span>{meal.prepTime}</span>
+            <span>{formatDuration(t, meal.totalMinutes)}</span>
           </div>
           <div className="flex items-center gap-1">
             <Flame size={16} className="text-primary" />
-            <span>{meal.calories}</span>
+            <span>{formatKcal(t, meal.kcalPerServing)}</span>
+          </div>
+          <div className="flex items-center gap-1">
+            <ChefHat size={16} className="text-primary" />
+            <span>{t(`difficulty.${meal.difficulty}`)}</span>
           </div>
         </div>
 
         <button
-          onClick={() => navigate(`/recipe/${encodeURIComponent(meal.name)}`)}
+          onClick={() => navigate(getRecipePath(meal.id))}
           className="w-full mt-auto bg-gray-50 hover:bg-primary text-gray-900 hover:text-white font-medium py-3 rounded-xl transition-all flex items-center justify-center gap-2 group-hover:shadow-lg"
         >
           {t('recipes.viewRecipe')} <ArrowRight size={18} />
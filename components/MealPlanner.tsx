@@ -0,0 +1,402 @@
+import React, { useMemo, useState } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import {
+  ArrowLeft,
+  CalendarDays,
+  Heart,
+  Loader2,
+  Search,
+  ShoppingCart,
+  Sparkles,
+  X,
+} from 'lucide-react';
+import { MealSlot, RecipeSummary } from '../types';
+import {
+  fetchRecipeDetails,
+  generateMealPlan,
+  getCachedRecipeDetails,
+  resolveRecipeSlug,
+  searchRecipes,
+} from '../services/geminiService';
+import { useMealPlan } from '../hooks/useMealPlan';
+import { useSavedRecipes } from '../hooks/useSavedRecipes';
+import { useShoppingList } from '../hooks/useShoppingList';
+import { scaleIngredient } from '../utils/ingredients';
+import {
+  MEAL_SLOTS,
+  WEEK_DAYS,
+  countPlannedRecipes,
+  findPlannedMeal,
+  getDailyKcal,
+  getWeekdayNames,
+} from '../utils/mealPlan';
+import { formatKcal } from '../utils/recipeMetrics';
+import { getRecipePath } from '../utils/recipeSlug';
+
+type Source = 'saved' | 'search';
+
+// Dragged either from the recipe list or from another slot
+type DragPayload = { recipe: RecipeSummary } | { from: { day: number; slot: MealSlot } };
+
+const DRAG_TYPE = 'application/json';
+
+// Recipes generated at once while building the shopping list; the rest wait their turn
+const DETAIL_FETCH_CONCURRENCY = 2;
+
+const MealPlanner: React.FC = () => {
+  const { t, i18n } = useTranslation();
+  const navigate = useNavigate();
+  const { plan, setMeal, moveMeal, clearMeal, replacePlan } = useMealPlan();
+  const { savedRecipes } = useSavedRecipes();
+  const { addRecipe } = useShoppingList();
+
+  const [source, setSource] = useState<Source>('saved');
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<RecipeSummary[]>([]);
+  const [searching, setSearching] = useState(false);
+  // Click a recipe, then a slot: the keyboard and touch alternative to dragging
+  const [selected, setSelected] = useState<RecipeSummary | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [building, setBuilding] = useState(false);
+  const [planRequest, setPlanRequest] = useState('');
+  const [generating, setGenerating] = useState(false);
+  const [generateError, setGenerateError] = useState<string | null>(null);
+
+  const weekdays = useMemo(() => getWeekdayNames(i18n.language), [i18n.language]);
+  const recipes = source === 'saved' ? savedRecipes.map((entry) => entry.recipe) : results;
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!query.trim()) return;
+    setSearching(true);
+    try {
+      setResults(await searchRecipes(query.trim()));
+    } catch {
+      setResults([]);
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent, day: number, slot: MealSlot) => {
+    e.preventDefault();
+    setDropTarget(null);
+    try {
+      const payload = JSON.parse(e.dataTransfer.getData(DRAG_TYPE)) as DragPayload;
+      if ('recipe' in payload) {
+        setMeal(day, slot, payload.recipe);
+      } else {
+        moveMeal(payload.from, { day, slot });
+      }
+    } catch {
+      // Something other than a recipe was dropped
+    }
+  };
+
+  const handleSlotClick = (day: number, slot: MealSlot) => {
+    if (!selected) return;
+    setMeal(day, slot, selected);
+    setSelected(null);
+  };
+
+  const handleGenerate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!planRequest.trim()) return;
+    setGenerating(true);
+    setGenerateError(null);
+    try {
+      const meals = await generateMealPlan(planRequest.trim());
+      if (meals.length > 0) {
+        replacePlan(meals);
+      } else {
+        setGenerateError(t('planner.generateEmpty'));
+      }
+    } catch {
+      setGenerateError(t('planner.generateFailed'));
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  // Adds every planned recipe, scaled by how often it is cooked this week
+  // Cached recipes are read straight away; only the others are fetched, a few at a time
+  const buildShoppingList = async () => {
+    setBuilding(true);
+    try {
+      const planned = await Promise.all(
+        countPlannedRecipes(plan).map(async ({ recipe, times }) => {
+          const name = resolveRecipeSlug(recipe.id).name;
+          return { name, times, detail: await getCachedRecipeDetails(name, i18n.language) };
+        })
+      );
+
+      const queue = planned.filter((entry) => !entry.detail);
+      await Promise.all(
+        Array.from({ length: Math.min(DETAIL_FETCH_CONCURRENCY, queue.length) }, async () => {
+          for (let entry = queue.shift(); entry; entry = queue.shift()) {
+            entry.detail = await fetchRecipeDetails(entry.name, i18n.language);
+          }
+        })
+      );
+
+      for (const { detail, times } of planned) {
+        if (detail) {
+          addRecipe(
+            detail,
+            detail.ingredients.map((ingredient) => scaleIngredient(ingredient, times))
+          );
+        }
+      }
+      navigate('/shopping-list');
+    } catch (error) {
+      console.error('[Planner] Failed to build shopping list:', error);
+    } finally {
+      setBuilding(false);
+    }
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+      <Link
+        to="/"
+        className="inline-flex items-center text-gray-500 hover:text-primary mb-8 transition-colors"
+      >
+        <ArrowLeft size={20} className="mr-2" /> {t('recipeDetail.backToRecipes')}
+      </Link>
+
+      <div className="mb-8 flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <h2 className="text-3xl font-serif font-bold text-gray-900">{t('planner.title')}</h2>
+          <p className="text-gray-500 mt-2">{t('planner.subtitle')}</p>
+        </div>
+        <button
+          onClick={buildShoppingList}
+          disabled={plan.length === 0 || building}
+          className="inline-flex items-center justify-center gap-2 rounded-full bg-primary px-5 py-2.5 text-sm font-semibold text-white hover:bg-orange-600 transition-colors disabled:opacity-50"
+        >
+          {building ? <Loader2 size={16} className="animate-spin" /> : <ShoppingCart size={16} />}
+          {t(building ? 'planner.building' : 'planner.shoppingList')}
+        </button>
+      </div>
+
+      <form
+        onSubmit={handleGenerate}
+        className="mb-8 flex flex-col sm:flex-row gap-3 p-4 bg-orange-50 rounded-2xl border border-orange-100"
+      >
+        <label htmlFor="plan-request" className="sr-only">
+          {t('planner.generateLabel')}
+        </label>
+        <input
+          id="plan-request"
+          type="text"
+          value={planRequest}
+          onChange={(e) => setPlanRequest(e.target.value)}
+          placeholder={t('planner.generatePlaceholder')}
+          className="flex-1 rounded-full border border-orange-200 bg-white px-4 py-2 text-sm text-gray-700 focus:border-primary focus:outline-none focus:ring-2 focus:ring-primary/20"
+        />
+        <button
+          type="submit"
+          disabled={generating || !planRequest.trim()}
+          className="inline-flex items-center justify-center gap-2 rounded-full border border-primary bg-white px-5 py-2 text-sm font-semibold text-primary hover:bg-primary hover:text-white transition-colors disabled:opacity-50 disabled:hover:bg-white disabled:hover:text-primary"
+        >
+          {generating ? <Loader2 size={16} className="animate-spin" /> : <Sparkles size={16} />}
+          {t(generating ? 'planner.generating' : 'planner.generate')}
+        </button>
+        {generateError && (
+          <p role="alert" className="sm:basis-full text-sm text-red-600">
+            {generateError}
+          </p>
+        )}
+      </form>
+
+      <div className="grid lg:grid-cols-[18rem_1fr] gap-8">
+        <aside className="bg-white rounded-2xl border border-gray-100 shadow-sm p-4 h-fit">
+          <div
+            role="tablist"
+            className="flex rounded-full bg-gray-100 p-1 text-sm font-semibold mb-4"
+          >
+            {(['saved', 'search'] as Source[]).map((option) => (
+              <button
+                key={option}
+                role="tab"
+                aria-selected={source === option}
+                onClick={() => setSource(option)}
+                className={`flex-1 inline-flex items-center justify-center gap-1.5 px-3 py-1.5 rounded-full transition-colors ${
+                  source === option
+                    ? 'bg-white text-primary shadow-sm'
+                    : 'text-gray-500 hover:text-gray-800'
+                }`}
+              >
+                {option === 'saved' ? <Heart size={14} /> : <Search size={14} />}
+                {t(`planner.${option}`)}
+              </button>
+            ))}
+          </div>
+
+          {source === 'search' && (
+            <form onSubmit={handleSearch} className="mb-4">
+              <input
+                type="search"
+                value={query}
+                onChange={(e) => setQuery(e.target.value)}
+                placeholder={t('planner.searchPlaceholder')}
+                aria-label={t('planner.searchPlaceholder')}
+                className="w-full rounded-full border border-gray-200 bg-white px-4 py-2 text-sm text-gray-700 focus:border-primary focus:outline-none focus:ring-2 focus:ring-primary/20"
+              />
+            </form>
+          )}
+
+          <p className="text-xs text-gray-400 mb-3">{t('planner.hint')}</p>
+
+          {searching ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-8 h-8 text-primary animate-spin" />
+            </div>
+          ) : recipes.length === 0 ? (
+            <p className="text-sm text-gray-500 py-4 text-center">
+              {t(source === 'saved' ? 'planner.noSaved' : 'planner.noResults')}
+            </p>
+          ) : (
+            <ul className="space-y-2 max-h-[60vh] overflow-y-auto">
+              {recipes.map((recipe) => (
+                <li key={recipe.id}>
+                  <button
+                    draggable
+                    onDragStart={(e) =>
+                      e.dataTransfer.setData(DRAG_TYPE, JSON.stringify({ recipe } as DragPayload))
+                    }
+                    onClick={() => setSelected(selected?.id === recipe.id ? null : recipe)}
+                    aria-pressed={selected?.id === recipe.id}
+                    className={`w-full text-left rounded-xl border px-3 py-2 cursor-grab transition-colors ${
+                      selected?.id === recipe.id
+                        ? 'border-primary bg-primary/10'
+                        : 'border-gray-100 hover:border-primary/40'
+                    }`}
+                  >
+                    <span className="block text-sm font-medium text-gray-800">{recipe.name}</span>
+                    <span className="block text-xs text-gray-500">
+                      {formatKcal(t, recipe.kcalPerServing)}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </aside>
+
+        <div className="overflow-x-auto">
+          <table className="w-full min-w-[48rem] border-separate border-spacing-2 table-fixed">
+            <thead>
+              <tr>
+                <th className="w-24" />
+                {WEEK_DAYS.map((day) => (
+                  <th key={day} scope="col" className="text-sm font-semibold text-gray-700">
+                    {weekdays[day]}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {MEAL_SLOTS.map((slot) => (
+                <tr key={slot}>
+                  <th scope="row" className="text-left text-xs font-bold uppercase text-gray-500">
+                    {t(`mealSlots.${slot}`)}
+                  </th>
+                  {WEEK_DAYS.map((day) => {
+                    const meal = findPlannedMeal(plan, day, slot);
+                    const cellKey = `${day}:${slot}`;
+                    return (
+                      <td
+                        key={cellKey}
+                        onDragOver={(e) => {
+                          e.preventDefault();
+                          setDropTarget(cellKey);
+                        }}
+                        onDragLeave={() => setDropTarget(null)}
+                        onDrop={(e) => handleDrop(e, day, slot)}
+                        className={`h-24 align-top rounded-xl border-2 border-dashed transition-colors ${
+                          dropTarget === cellKey
+                            ? 'border-primary bg-primary/5'
+                            : meal
+                              ? 'border-transparent'
+                              : 'border-gray-200'
+                        }`}
+                      >
+                        {meal ? (
+                          <div
+                            draggable
+                            onDragStart={(e) =>
+                              e.dataTransfer.setData(
+                                DRAG_TYPE,
+                                JSON.stringify({ from: { day, slot } } as DragPayload)
+                              )
+                            }
+                            className="relative h-full rounded-xl bg-white border border-orange-100 shadow-sm p-2 cursor-grab"
+                          >
+                            <Link
+                              to={getRecipePath(meal.recipe.id)}
+                              className="block pr-5 text-xs font-semibold text-gray-800 hover:text-primary line-clamp-3"
+                            >
+                              {meal.recipe.name}
+                            </Link>
+                            <span className="block mt-1 text-[11px] text-gray-500">
+                              {formatKcal(t, meal.recipe.kcalPerServing)}
+                            </span>
+                            <button
+                              onClick={() => clearMeal(day, slot)}
+                              className="absolute top-1 right-1 p-0.5 rounded-full text-gray-400 hover:text-red-500"
+                              aria-label={t('planner.remove', { recipe: meal.recipe.name })}
+                            >
+                              <X size={14} />
+                            </button>
+                          </div>
+                        ) : (
+                          <button
+                            onClick={() => handleSlotClick(day, slot)}
+                            disabled={!selected}
+                            className="w-full h-full text-[11px] text-gray-400 enabled:hover:text-primary"
+                            aria-label={t('planner.placeIn', {
+                              day: weekdays[day],
+                              slot: t(`mealSlots.${slot}`),
+                            })}
+                          >
+                            {selected ? t('planner.placeHere') : ''}
+                          </button>
+                        )}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+            <tfoot>
+              <tr>
+                <th scope="row" className="text-left text-xs font-bold uppercase text-gray-500">
+                  {t('planner.dailyTotal')}
+                </th>
+                {WEEK_DAYS.map((day) => {
+                  const kcal = getDailyKcal(plan, day);
+                  return (
+                    <td key={day} className="text-center text-sm font-semibold text-gray-800">
+                      {kcal > 0 ? formatKcal(t, kcal) : '–'}
+                    </td>
+                  );
+                })}
+              </tr>
+            </tfoot>
+          </table>
+
+          {plan.length === 0 && (
+            <div className="flex flex-col items-center justify-center text-center text-gray-400 py-8">
+              <CalendarDays size={48} className="mb-3 opacity-50" />
+              <p>{t('planner.empty')}</p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MealPlanner;
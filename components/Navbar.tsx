@@ -1,8 +1,9 @@
 import React from 'react';
 import { Link } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
-import { UtensilsCrossed, Home, Menu } from 'lucide-react';
+import { UtensilsCrossed, Home, Menu, Heart, ShoppingCart, CalendarDays } from 'lucide-react';
 import LanguageSwitcher from './LanguageSwitcher';
+import DietaryProfileMenu from './DietaryProfileMenu';
 
 const Navbar: React.FC = () => {
   const { t } = useTranslation();
@@ -38,6 +39,28 @@ const Navbar: React.FC = () => {
               <Menu size={18} />
               <span className="hidden sm:inline">{t('nav.categories')}</span>
             </Link>
+            <Link
+              to="/saved"
+              className="flex items-center gap-2 text-gray-600 hover:text-primary font-medium transition-colors"
+            >
+              <Heart size={18} />
+              <span className="hidden sm:inline">{t('nav.saved')}</span>
+            </Link>
+            <Link
+              to="/planner"
+              className="flex items-center gap-2 text-gray-600 hover:text-primary font-medium transition-colors"
+            >
+              <CalendarDays size={18} />
+              <span className="hidden sm:inline">{t('nav.planner')}</span>
+            </Link>
+            <Link
+              to="/shopping-list"
+              className="flex items-center gap-2 text-gray-600 hover:text-primary font-medium transition-colors"
+            >
+              <ShoppingCart size={18} />
+              <span className="hidden sm:inline">{t('nav.shoppingList')}</span>
+            </Link>
+            <DietaryProfileMenu />
             <LanguageSwitcher />
           </div>
         </div>
@@ -0,0 +1,83 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { Nutrition } from '../types';
+import { NUTRIENTS, getDailyValuePercent } from '../utils/nutrition';
+import { formatKcal } from '../utils/recipeMetrics';
+
+interface NutritionPanelProps {
+  kcalPerServing: number;
+  nutrition: Nutrition;
+  // Servings being cooked; totals follow the servings selector
+  servings: number;
+}
+
+/**
+ * Nutrition-facts table listing each nutrient per serving and for the whole batch
+ */
+const NutritionPanel: React.FC<NutritionPanelProps> = ({ kcalPerServing, nutrition, servings }) => {
+  const { t } = useTranslation();
+
+  const formatAmount = (unit: 'g' | 'mg', value: number) =>
+    t(`nutrition.${unit}`, {
+      // Small gram amounts keep a decimal; larger ones read better as whole numbers
+      value: unit === 'g' && value < 10 ? Math.round(value * 10) / 10 : Math.round(value),
+    });
+
+  return (
+    <section className="mt-10 rounded-2xl border border-gray-200 p-5">
+      <h3 className="font-serif text-xl font-bold text-gray-900 pb-2 mb-2 border-b-4 border-gray-900">
+        {t('nutrition.title')}
+      </h3>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-xs text-gray-500 border-b border-gray-200">
+            <th scope="col" className="py-1 text-left font-medium">
+              <span className="sr-only">{t('nutrition.nutrient')}</span>
+            </th>
+            <th scope="col" className="py-1 text-right font-medium">
+              {t('nutrition.perServing')}
+            </th>
+            <th scope="col" className="py-1 text-right font-medium">
+              {t('nutrition.totalFor', { count: servings })}
+            </th>
+            <th scope="col" className="py-1 text-right font-medium">
+              {t('nutrition.dailyValue')}
+            </th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-gray-100">
+          <tr className="font-bold text-gray-900">
+            <th scope="row" className="py-2 text-left">
+              {t('recipes.calories')}
+            </th>
+            <td className="py-2 text-right">{formatKcal(t, kcalPerServing)}</td>
+            <td className="py-2 text-right">
+              {formatKcal(t, Math.round(kcalPerServing * servings))}
+            </td>
+            <td />
+          </tr>
+          {NUTRIENTS.map((nutrient) => {
+            const amount = nutrition[nutrient.key];
+            return (
+              <tr key={nutrient.key} className="text-gray-700">
+                <th scope="row" className="py-2 text-left font-medium">
+                  {t(`nutrition.nutrients.${nutrient.key}`)}
+                </th>
+                <td className="py-2 text-right">{formatAmount(nutrient.unit, amount)}</td>
+                <td className="py-2 text-right">
+                  {formatAmount(nutrient.unit, amount * servings)}
+                </td>
+                <td className="py-2 text-right font-semibold">
+                  {getDailyValuePercent(nutrient, amount)}%
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <p className="mt-3 text-xs text-gray-400">{t('nutrition.dailyValueNote')}</p>
+    </section>
+  );
+};
+
+export default NutritionPanel;
@@ -0,0 +1,149 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { useSearchParams, Link } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import MealBox from './MealBox';
+import { PantryResult } from '../types';
+import { searchByIngredients } from '../services/geminiService';
+import { useDietaryProfile } from '../hooks/useDietaryProfile';
+import { parsePantryItems } from '../utils/pantry';
+import { Loader2, ArrowLeft, SearchX, Plus, X } from 'lucide-react';
+
+const PantryResults: React.FC = () => {
+  const { t, i18n } = useTranslation();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { profile } = useDietaryProfile();
+  const [recipes, setRecipes] = useState<PantryResult[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [newItem, setNewItem] = useState('');
+
+  // The pantry lives in the URL (?items=chicken,rice,spinach) so it can be shared
+  const itemsParam = searchParams.get('items');
+  const items = useMemo(() => parsePantryItems(itemsParam), [itemsParam]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadRecipes = async () => {
+      setLoading(true);
+      try {
+        const data = await searchByIngredients(items);
+        if (!cancelled) {
+          setRecipes(data);
+          setLoading(false);
+        }
+      } catch {
+        if (!cancelled) {
+          setRecipes([]);
+          setLoading(false);
+        }
+      }
+    };
+
+    loadRecipes();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [items, profile, i18n.language]); // Reload when the pantry, profile or language changes
+
+  const updateItems = (next: string[]) => {
+    const params = new URLSearchParams(searchParams);
+    if (next.length > 0) {
+      params.set('items', next.join(','));
+    } else {
+      params.delete('items');
+    }
+    setSearchParams(params, { replace: true });
+  };
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const added = parsePantryItems(newItem).filter((item) => !items.includes(item));
+    if (added.length > 0) {
+      updateItems([...items, ...added]);
+    }
+    setNewItem('');
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+      <Link
+        to="/"
+        className="inline-flex items-center text-gray-500 hover:text-primary mb-8 transition-colors"
+      >
+        <ArrowLeft size={20} className="mr-2" /> {t('recipeDetail.backToRecipes')}
+      </Link>
+
+      <div className="mb-10">
+        <h2 className="text-3xl font-serif font-bold text-gray-900">{t('pantry.title')}</h2>
+        <p className="text-gray-500 mt-2">{t('pantry.subtitle')}</p>
+
+        <div className="mt-6 flex flex-wrap items-center gap-2">
+          {items.map((item) => (
+            <span
+              key={item}
+              className="inline-flex items-center gap-1 rounded-full bg-primary/10 text-primary pl-3 pr-1 py-1 text-sm font-medium"
+            >
+              {item}
+              <button
+                onClick={() => updateItems(items.filter((other) => other !== item))}
+                className="p-1 rounded-full hover:bg-primary/20"
+                aria-label={t('pantry.remove', { item })}
+              >
+                <X size={14} />
+              </button>
+            </span>
+          ))}
+
+          <form onSubmit={handleAdd} className="flex items-center gap-1">
+            <input
+              type="text"
+              value={newItem}
+              onChange={(e) => setNewItem(e.target.value)}
+              placeholder={t('pantry.add')}
+              aria-label={t('pantry.add')}
+              className="rounded-full border border-gray-200 bg-white px-3 py-1 text-sm text-gray-700 focus:border-primary focus:outline-none focus:ring-2 focus:ring-primary/20"
+            />
+            <button
+              type="submit"
+              className="p-1.5 rounded-full bg-primary text-white hover:bg-orange-600 transition-colors"
+              aria-label={t('pantry.addButton')}
+            >
+              <Plus size={16} />
+            </button>
+          </form>
+        </div>
+      </div>
+
+      {items.length === 0 ? (
+        <div className="min-h-[40vh] flex flex-col items-center justify-center text-gray-400">
+          <SearchX size={64} className="mb-4 opacity-50" />
+          <p>{t('pantry.empty')}</p>
+        </div>
+      ) : loading ? (
+        <div className="min-h-[40vh] flex flex-col items-center justify-center">
+          <Loader2 className="w-12 h-12 text-primary animate-spin mb-4" />
+          <p className="text-gray-500 font-medium">{t('pantry.loading')}</p>
+        </div>
+      ) : recipes.length > 0 ? (
+        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+          {recipes.map((recipe) => (
+            <MealBox
+              key={`${recipe.id}-${recipe.name}`}
+              meal={recipe}
+              missingIngredients={recipe.missingIngredients}
+            />
+          ))}
+        </div>
+      ) : (
+        <div className="min-h-[40vh] flex flex-col items-center justify-center text-gray-400">
+          <SearchX size={64} className="mb-4 opacity-50" />
+          <h3 className="text-xl font-medium text-gray-600">{t('search.noResults')}</h3>
+          <p>{t('search.tryDifferent')}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PantryResults;
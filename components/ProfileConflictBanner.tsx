@@ -0,0 +1,50 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { AlertTriangle } from 'lucide-react';
+import { RecipeDetail } from '../types';
+import { useDietaryProfile } from '../hooks/useDietaryProfile';
+import { findProfileConflicts } from '../utils/allergens';
+
+interface ProfileConflictBannerProps {
+  recipe: RecipeDetail;
+}
+
+/**
+ * Warns when a recipe contains something the user's dietary profile excludes
+ */
+const ProfileConflictBanner: React.FC<ProfileConflictBannerProps> = ({ recipe }) => {
+  const { t } = useTranslation();
+  const { profile } = useDietaryProfile();
+  const conflicts = findProfileConflicts(recipe, profile);
+
+  if (conflicts.allergens.length === 0 && conflicts.diets.length === 0) {
+    return null;
+  }
+
+  return (
+    <div
+      role="alert"
+      className="flex gap-3 mb-8 p-4 bg-red-50 border border-red-200 rounded-2xl text-red-800"
+    >
+      <AlertTriangle size={22} className="shrink-0 mt-0.5" />
+      <div>
+        <p className="font-semibold">{t('profile.conflictTitle')}</p>
+        <ul className="mt-1 text-sm space-y-0.5">
+          {conflicts.allergens.map(({ allergen, ingredients }) => (
+            <li key={allergen}>
+              {t('profile.containsAllergen', { allergen: t(`allergens.${allergen}`) })}
+              {ingredients.length > 0 && (
+                <span className="text-red-600">: {ingredients.join(', ')}</span>
+              )}
+            </li>
+          ))}
+          {conflicts.diets.map((diet) => (
+            <li key={diet}>{t('profile.notDiet', { diet: t(`dietary.${diet}`) })}</li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default ProfileConflictBanner;
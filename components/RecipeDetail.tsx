@@ -1,19 +1,60 @@
-import React from 'react';
+import React, { useCallback, useState } from 'react';
 import { useParams, Link } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
-import { Clock, Flame, ChefHat, ArrowLeft, CheckCircle2 } from 'lucide-react';
+import {
+  Clock,
+  Flame,
+  ChefHat,
+  ArrowLeft,
+  CheckCircle2,
+  Users,
+  Minus,
+  Plus,
+  ShoppingCart,
+  CookingPot,
+} from 'lucide-react';
 import { useRecipe } from '../hooks/useRecipe';
 import { useRecipeImage } from '../hooks/useRecipeImage';
+import { useUnitSystem } from '../hooks/useUnitSystem';
+import { useShoppingList } from '../hooks/useShoppingList';
+import { formatIngredient, scaleIngredient } from '../utils/ingredients';
+import { convertIngredient, convertTemperatures } from '../utils/units';
+import { formatDuration, formatKcal } from '../utils/recipeMetrics';
+import UnitSwitcher from './UnitSwitcher';
+import ProfileConflictBanner from './ProfileConflictBanner';
+import SaveRecipeButton from './SaveRecipeButton';
+import CookingMode from './CookingMode';
+import NutritionPanel from './NutritionPanel';
+import StreamingRecipe from './StreamingRecipe';
+
+const MIN_SERVINGS = 1;
+const MAX_SERVINGS = 48;
 
 const RecipeDetail: React.FC = () => {
   const { t } = useTranslation();
-  const { name } = useParams<{ name: string }>();
+  const { slug } = useParams<{ slug: string }>();
 
   // Use custom hook for optimized recipe fetching
-  const { recipe, isLoading, isError } = useRecipe(name);
+  const { recipe, draft, isLoading, isError } = useRecipe(slug);
 
   // Fetch image using English recipe name (always, regardless of UI language)
   const { imageUrl, isLoading: imageLoading } = useRecipeImage(recipe?.name, 1200, 600);
+  const { unitSystem } = useUnitSystem();
+  const { addRecipe, hasRecipe } = useShoppingList();
+
+  // Servings picked on the stepper, tied to the recipe they were picked for
+  // so opening another recipe starts again from its own yield
+  const [servingsChoice, setServingsChoice] = useState<{
+    recipeName: string;
+    servings: number;
+  } | null>(null);
+  const [isCooking, setIsCooking] = useState(false);
+  const closeCookingMode = useCallback(() => setIsCooking(false), []);
+
+  // Generated recipes show up while they are being written, once they have a name
+  if (isLoading && draft?.name) {
+    return <StreamingRecipe draft={draft} />;
+  }
 
   if (isLoading) {
     return (
@@ -38,6 +79,19 @@ const RecipeDetail: React.FC = () => {
     );
   }
 
+  const servings =
+    servingsChoice?.recipeName === recipe.name ? servingsChoice.servings : recipe.servings;
+  const scaleFactor = servings / recipe.servings;
+  const totalCalories = Math.round(recipe.kcalPerServing * servings);
+
+  const scaledIngredients = recipe.ingredients.map((item) => scaleIngredient(item, scaleFactor));
+  const onShoppingList = hasRecipe(recipe.id);
+
+  const changeServings = (delta: number) => {
+    const next = Math.min(MAX_SERVINGS, Math.max(MIN_SERVINGS, servings + delta));
+    setServingsChoice({ recipeName: recipe.name, servings: next });
+  };
+
   return (
     <div className="max-w-4xl mx-auto px-4 py-8 animate-fade-in">
       <Link
@@ -82,9 +136,16 @@ const RecipeDetail: React.FC = () => {
               <p className="text-gray-200 text-lg max-w-2xl">{recipe.shortDescription}</p>
             </div>
           )}
+          <SaveRecipeButton
+            recipeId={recipe.id}
+            recipe={recipe}
+            className="absolute top-4 right-4"
+          />
         </div>
 
         <div className="p-8">
+          <ProfileConflictBanner recipe={recipe} />
+
           <div className="flex flex-wrap gap-6 mb-8 p-6 bg-orange-50 rounded-2xl border border-orange-100">
             <div className="flex items-center gap-3">
               <div className="bg-white p-2 rounded-full text-primary shadow-sm">
@@ -92,9 +153,15 @@ const RecipeDetail: React.FC = () => {
               </div>
               <div>
                 <p className="text-xs text-gray-500 font-semibold uppercase">
-                  {t('recipes.prepTime')}
+                  {t('recipes.totalTime')}
+                </p>
+                <p className="text-gray-900 font-medium">
+                  {formatDuration(t, recipe.totalMinutes)}
+                </p>
+                <p className="text-xs text-gray-500">
+                  {t('recipes.prepTime')}: {formatDuration(t, recipe.prepMinutes)} ·{' '}
+                  {t('recipes.cookTime')}: {formatDuration(t, recipe.cookMinutes)}
                 </p>
-                <p className="text-gray-900 font-medium">{recipe.prepTime}</p>
               </div>
             </div>
             <div className="flex items-center gap-3">
@@ -105,7 +172,47 @@ const RecipeDetail: React.FC = () => {
                 <p className="text-xs text-gray-500 font-semibold uppercase">
                   {t('recipes.calories')}
                 </p>
-                <p className="text-gray-900 font-medium">{recipe.calories}</p>
+                <p className="text-gray-900 font-medium">
+                  {formatKcal(t, recipe.kcalPerServing)}
+                  <span className="text-xs text-gray-500 font-normal">
+                    {' '}
+                    / {t('recipeDetail.perServing')}
+                  </span>
+                </p>
+                <p className="text-xs text-gray-500">
+                  {t('recipeDetail.totalCalories', { kcal: totalCalories })}
+                </p>
+              </div>
+            </div>
+            <div className="flex items-center gap-3">
+              <div className="bg-white p-2 rounded-full text-primary shadow-sm">
+                <Users size={24} />
+              </div>
+              <div>
+                <p className="text-xs text-gray-500 font-semibold uppercase">
+                  {t('recipes.servings')}
+                </p>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => changeServings(-1)}
+                    disabled={servings <= MIN_SERVINGS}
+                    className="w-7 h-7 rounded-full bg-white border border-orange-200 text-primary flex items-center justify-center hover:bg-primary hover:text-white transition-colors disabled:opacity-40 disabled:hover:bg-white disabled:hover:text-primary"
+                    aria-label={t('recipeDetail.decreaseServings')}
+                  >
+                    <Minus size={14} />
+                  </button>
+                  <span className="text-gray-900 font-medium w-6 text-center" aria-live="polite">
+                    {servings}
+                  </span>
+                  <button
+                    onClick={() => changeServings(1)}
+                    disabled={servings >= MAX_SERVINGS}
+                    className="w-7 h-7 rounded-full bg-white border border-orange-200 text-primary flex items-center justify-center hover:bg-primary hover:text-white transition-colors disabled:opacity-40 disabled:hover:bg-white disabled:hover:text-primary"
+                    aria-label={t('recipeDetail.increaseServings')}
+                  >
+                    <Plus size={14} />
+                  </button>
+                </div>
               </div>
             </div>
             <div className="flex items-center gap-3">
@@ -113,31 +220,76 @@ const RecipeDetail: React.FC = () => {
                 <ChefHat size={24} />
               </div>
               <div>
-                <p className="text-xs text-gray-500 font-semibold uppercase">Difficulty</p>
-                <p className="text-gray-900 font-medium">Medium</p>
+                <p className="text-xs text-gray-500 font-semibold uppercase">
+                  {t('recipes.difficulty')}
+                </p>
+                <p className="text-gray-900 font-medium">{t(`difficulty.${recipe.difficulty}`)}</p>
               </div>
             </div>
           </div>
 
           <div className="grid md:grid-cols-3 gap-12">
             <div className="md:col-span-1">
-              <h3 className="text-2xl font-serif font-bold text-gray-900 mb-6 pb-2 border-b border-gray-200">
+              <h3 className="text-2xl font-serif font-bold text-gray-900 mb-4 pb-2 border-b border-gray-200">
                 {t('recipeDetail.ingredients')}
               </h3>
+              <div className="mb-6">
+                <UnitSwitcher />
+              </div>
               <ul className="space-y-3">
-                {recipe.ingredients.map((item, idx) => (
+                {scaledIngredients.map((item, idx) => (
                   <li key={idx} className="flex items-start gap-3 text-gray-700">
                     <CheckCircle2 size={18} className="text-green-500 flex-shrink-0 mt-1" />
-                    <span>{item}</span>
+                    <span>
+                      {formatIngredient(convertIngredient(item, unitSystem))}
+                      {item.optional && (
+                        <span className="ml-2 text-xs text-gray-400 italic">
+                          ({t('recipeDetail.optional')})
+                        </span>
+                      )}
+                    </span>
                   </li>
                 ))}
               </ul>
+              <button
+                onClick={() => addRecipe(recipe, scaledIngredients)}
+                className="mt-6 w-full inline-flex items-center justify-center gap-2 rounded-full border border-primary px-4 py-2 text-sm font-semibold text-primary hover:bg-primary hover:text-white transition-colors"
+              >
+                <ShoppingCart size={16} />
+                {t(onShoppingList ? 'shoppingList.update' : 'shoppingList.add')}
+              </button>
+              {onShoppingList && (
+                <Link
+                  to="/shopping-list"
+                  className="mt-2 block text-center text-sm text-gray-500 hover:text-primary"
+                >
+                  {t('shoppingList.view')}
+                </Link>
+              )}
+              {recipe.nutrition && (
+                <NutritionPanel
+                  kcalPerServing={recipe.kcalPerServing}
+                  nutrition={recipe.nutrition}
+                  servings={servings}
+                />
+              )}
             </div>
 
             <div className="md:col-span-2">
-              <h3 className="text-2xl font-serif font-bold text-gray-900 mb-6 pb-2 border-b border-gray-200">
-                {t('recipeDetail.instructions')}
-              </h3>
+              <div className="flex items-center justify-between gap-4 mb-6 pb-2 border-b border-gray-200">
+                <h3 className="text-2xl font-serif font-bold text-gray-900">
+                  {t('recipeDetail.instructions')}
+                </h3>
+                {recipe.instructions.length > 0 && (
+                  <button
+                    onClick={() => setIsCooking(true)}
+                    className="inline-flex items-center gap-2 rounded-full bg-primary px-4 py-2 text-sm font-semibold text-white hover:bg-orange-600 transition-colors"
+                  >
+                    <CookingPot size={16} />
+                    {t('cookingMode.start')}
+                  </button>
+                )}
+              </div>
               <div className="space-y-8">
                 {recipe.instructions.map((step, idx) => (
                   <div key={idx} className="flex gap-4">
@@ -145,7 +297,9 @@ const RecipeDetail: React.FC = () => {
                       {idx + 1}
                     </div>
                     <div>
-                      <p className="text-gray-700 leading-relaxed text-lg">{step}</p>
+                      <p className="text-gray-700 leading-relaxed text-lg">
+                        {convertTemperatures(step, unitSystem)}
+                      </p>
                     </div>
                   </div>
                 ))}
@@ -167,6 +321,9 @@ const RecipeDetail: React.FC = () => {
           </div>
         </div>
       </div>
+      {isCooking && (
+        <CookingMode recipe={recipe} ingredients={scaledIngredients} onClose={closeCookingMode} />
+      )}
     </div>
   );
 };
@@ -0,0 +1,65 @@
+import React, { useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Heart, Loader2 } from 'lucide-react';
+import { RecipeDetail } from '../types';
+import { fetchRecipeDetails, resolveRecipeSlug } from '../services/geminiService';
+import { useSavedRecipes } from '../hooks/useSavedRecipes';
+
+interface SaveRecipeButtonProps {
+  // Canonical recipe id
+  recipeId: string;
+  // Full recipe when already loaded; otherwise it is fetched on save
+  recipe?: RecipeDetail;
+  className?: string;
+}
+
+const SaveRecipeButton: React.FC<SaveRecipeButtonProps> = ({ recipeId, recipe, className }) => {
+  const { t, i18n } = useTranslation();
+  const { isSaved, save, remove } = useSavedRecipes();
+  const [isBusy, setIsBusy] = useState(false);
+  const saved = isSaved(recipeId);
+
+  const handleClick = async (e: React.MouseEvent) => {
+    // Cards are clickable too; keep the click on the button
+    e.stopPropagation();
+    if (isBusy) return;
+
+    setIsBusy(true);
+    try {
+      if (saved) {
+        await remove(recipeId);
+      } else {
+        // Cards may show a translated name, so fetch by the canonical English one
+        const detail =
+          recipe ?? (await fetchRecipeDetails(resolveRecipeSlug(recipeId).name, i18n.language));
+        if (detail) {
+          await save(recipeId, detail, i18n.language);
+        }
+      }
+    } catch (error) {
+      console.error('[Saved] Failed to update saved recipe:', error);
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <button
+      onClick={handleClick}
+      aria-pressed={saved}
+      aria-label={t(saved ? 'saved.remove' : 'saved.save')}
+      title={t(saved ? 'saved.remove' : 'saved.save')}
+      className={`flex items-center justify-center rounded-full bg-white/90 backdrop-blur-sm shadow-sm p-2 transition-colors ${
+        saved ? 'text-red-500' : 'text-gray-500 hover:text-red-500'
+      } ${className ?? ''}`}
+    >
+      {isBusy ? (
+        <Loader2 size={18} className="animate-spin" />
+      ) : (
+        <Heart size={18} fill={saved ? 'currentColor' : 'none'} />
+      )}
+    </button>
+  );
+};
+
+export default SaveRecipeButton;
@@ -0,0 +1,122 @@
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import MealBox from './MealBox';
+import { SavedRecipe } from '../types';
+import { useSavedRecipes } from '../hooks/useSavedRecipes';
+import { createSearchIndex } from '../utils/searchIndex';
+import { Loader2, ArrowLeft, Heart, Search, SearchX } from 'lucide-react';
+
+interface SavedGroup {
+  category: string;
+  entries: SavedRecipe[];
+}
+
+const SavedRecipes: React.FC = () => {
+  const { t } = useTranslation();
+  const { savedRecipes, isLoaded } = useSavedRecipes();
+  const [query, setQuery] = useState('');
+
+  const index = useMemo(
+    () =>
+      createSearchIndex(
+        savedRecipes.map((entry) => ({
+          recipe: entry.recipe,
+          ingredients: entry.recipe.ingredients.map((ingredient) => ingredient.item),
+        }))
+      ),
+    [savedRecipes]
+  );
+
+  const groups = useMemo<SavedGroup[]>(() => {
+    let matches = savedRecipes;
+    if (query.trim()) {
+      // Every query term must match, same as the local catalog search
+      const hits = new Set(
+        index
+          .search(query)
+          .filter((hit) => hit.coverage === 1)
+          .map((hit) => hit.recipe)
+      );
+      matches = savedRecipes.filter((entry) => hits.has(entry.recipe));
+    }
+
+    const byCategory = new Map<string, SavedRecipe[]>();
+    for (const entry of matches) {
+      const category = entry.recipe.category.trim() || 'Other';
+      byCategory.set(category, [...(byCategory.get(category) ?? []), entry]);
+    }
+    return [...byCategory.entries()]
+      .map(([category, entries]) => ({ category, entries }))
+      .sort((a, b) => a.category.localeCompare(b.category));
+  }, [savedRecipes, index, query]);
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+      <Link
+        to="/"
+        className="inline-flex items-center text-gray-500 hover:text-primary mb-8 transition-colors"
+      >
+        <ArrowLeft size={20} className="mr-2" /> {t('recipeDetail.backToRecipes')}
+      </Link>
+
+      <div className="mb-10 flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+        <div>
+          <h2 className="text-3xl font-serif font-bold text-gray-900">{t('saved.title')}</h2>
+          <p className="text-gray-500 mt-2">{t('saved.subtitle')}</p>
+        </div>
+        {savedRecipes.length > 0 && (
+          <div className="relative w-full md:w-72">
+            <Search
+              size={16}
+              className="absolute left-3 top-1/2 -translate-y-1/2 text-gray-400 pointer-events-none"
+            />
+            <input
+              type="search"
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              placeholder={t('saved.searchPlaceholder')}
+              aria-label={t('saved.searchPlaceholder')}
+              className="w-full rounded-full border border-gray-200 bg-white pl-9 pr-4 py-2 text-sm text-gray-700 focus:border-primary focus:outline-none focus:ring-2 focus:ring-primary/20"
+            />
+          </div>
+        )}
+      </div>
+
+      {!isLoaded ? (
+        <div className="min-h-[40vh] flex flex-col items-center justify-center">
+          <Loader2 className="w-12 h-12 text-primary animate-spin" />
+        </div>
+      ) : savedRecipes.length === 0 ? (
+        <div className="min-h-[40vh] flex flex-col items-center justify-center text-gray-400">
+          <Heart size={64} className="mb-4 opacity-50" />
+          <h3 className="text-xl font-medium text-gray-600">{t('saved.empty')}</h3>
+          <p>{t('saved.emptyHint')}</p>
+        </div>
+      ) : groups.length === 0 ? (
+        <div className="min-h-[40vh] flex flex-col items-center justify-center text-gray-400">
+          <SearchX size={64} className="mb-4 opacity-50" />
+          <p>{t('saved.noMatches', { query })}</p>
+        </div>
+      ) : (
+        <div className="space-y-12">
+          {groups.map(({ category, entries }) => (
+            <section key={category}>
+              <h3 className="text-xl font-serif font-bold text-gray-800 mb-6">
+                {category}{' '}
+                <span className="text-gray-400 font-sans text-base">({entries.length})</span>
+              </h3>
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
+                {entries.map((entry) => (
+                  <MealBox key={entry.key} meal={entry.recipe} />
+                ))}
+              </div>
+            </section>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SavedRecipes;
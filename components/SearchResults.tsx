@@ -1,17 +1,41 @@
-import React, { useEffect, useState } from 'react';
-import { useParams, Link } from 'react-router-dom';
+import React, { useEffect, useMemo, useState } from 'react';
+import { useParams, useSearchParams, Link } from 'react-router-dom';
 import { useTranslation } from 'react-i18next';
 import MealBox from './MealBox';
-import { RecipeSummary } from '../types';
+import FilterSidebar from './FilterSidebar';
+import { SearchFilters, SearchResult, SortOption } from '../types';
 import { searchRecipes } from '../services/geminiService';
-import { Loader2, ArrowLeft, SearchX } from 'lucide-react';
+import { useDietaryProfile } from '../hooks/useDietaryProfile';
+import {
+  SORT_OPTIONS,
+  applySearchFilters,
+  applySortOption,
+  parseSearchFilters,
+  parseSortOption,
+  sortResults,
+} from '../utils/searchFilters';
+import { Loader2, ArrowLeft, SearchX, ArrowUpDown } from 'lucide-react';
 
 const SearchResults: React.FC = () => {
   const { t, i18n } = useTranslation();
   const { query } = useParams<{ query: string }>();
-  const [recipes, setRecipes] = useState<RecipeSummary[]>([]);
+  const [searchParams, setSearchParams] = useSearchParams();
+  const { profile } = useDietaryProfile();
+  const [recipes, setRecipes] = useState<SearchResult[]>([]);
   const [loading, setLoading] = useState(true);
 
+  // The query string is the source of truth; re-parse only when a filter in it changes,
+  // so picking another sort order keeps the same filters object and skips the search
+  const filtersKey = applySortOption(searchParams, 'relevance').toString();
+  const filters = useMemo(() => parseSearchFilters(new URLSearchParams(filtersKey)), [filtersKey]);
+
+  // Sorting happens client-side so changing it never triggers another search
+  const sort = parseSortOption(searchParams);
+  const sortedRecipes = useMemo(
+    () => sortResults(recipes, sort, i18n.language),
+    [recipes, sort, i18n.language]
+  );
+
   useEffect(() => {
     let cancelled = false;
 
@@ -19,7 +43,7 @@ const SearchResults: React.FC = () => {
       if (!query) return;
       setLoading(true);
       try {
-        const data = await searchRecipes(query);
+        const data = await searchRecipes(query, filters);
         if (!cancelled) {
           setRecipes(data);
           setLoading(false);
@@ -37,7 +61,15 @@ const SearchResults: React.FC = () => {
     return () => {
       cancelled = true;
     };
-  }, [query, i18n.language]); // Reload when language changes
+  }, [query, filters, profile, i18n.language]); // Reload when filters, profile or language change
+
+  const updateFilters = (next: SearchFilters) => {
+    setSearchParams(applySearchFilters(searchParams, next), { replace: true });
+  };
+
+  const updateSort = (next: SortOption) => {
+    setSearchParams(applySortOption(searchParams, next), { replace: true });
+  };
 
   return (
     <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
@@ -48,33 +80,57 @@ const SearchResults: React.FC = () => {
         <ArrowLeft size={20} className="mr-2" /> {t('recipeDetail.backToRecipes')}
       </Link>
 
-      <div className="mb-10">
-        <h2 className="text-3xl font-serif font-bold text-gray-900">
-          {t('search.results')} &quot;{query}&quot;
-        </h2>
-        <p className="text-gray-500 mt-2">
-          {t('search.found')} {recipes.length} {t('search.possibilities')}
-        </p>
+      <div className="mb-10 flex flex-col sm:flex-row sm:items-end sm:justify-between gap-4">
+        <div>
+          <h2 className="text-3xl font-serif font-bold text-gray-900">
+            {t('search.results')} &quot;{query}&quot;
+          </h2>
+          <p className="text-gray-500 mt-2">
+            {t('search.found')} {recipes.length} {t('search.possibilities')}
+          </p>
+        </div>
+
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          <ArrowUpDown size={16} className="text-primary" />
+          <span className="font-medium">{t('sort.label')}</span>
+          <select
+            value={sort}
+            onChange={(e) => updateSort(e.target.value as SortOption)}
+            className="rounded-xl border border-gray-200 bg-white px-3 py-2 text-sm text-gray-700 focus:border-primary focus:outline-none focus:ring-2 focus:ring-primary/20"
+          >
+            {SORT_OPTIONS.map((option) => (
+              <option key={option} value={option}>
+                {t(`sort.${option}`)}
+              </option>
+            ))}
+          </select>
+        </label>
       </div>
 
-      {loading ? (
-        <div className="min-h-[40vh] flex flex-col items-center justify-center">
-          <Loader2 className="w-12 h-12 text-primary animate-spin mb-4" />
-          <p className="text-gray-500 font-medium">{t('search.loading')}</p>
-        </div>
-      ) : recipes.length > 0 ? (
-        <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
-          {recipes.map((recipe) => (
-            <MealBox key={recipe.id} meal={recipe} />
-          ))}
-        </div>
-      ) : (
-        <div className="min-h-[40vh] flex flex-col items-center justify-center text-gray-400">
-          <SearchX size={64} className="mb-4 opacity-50" />
-          <h3 className="text-xl font-medium text-gray-600">{t('search.noResults')}</h3>
-          <p>{t('search.tryDifferent')}</p>
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-8">
+        <FilterSidebar filters={filters} onChange={updateFilters} />
+
+        <div className="lg:col-span-3">
+          {loading ? (
+            <div className="min-h-[40vh] flex flex-col items-center justify-center">
+              <Loader2 className="w-12 h-12 text-primary animate-spin mb-4" />
+              <p className="text-gray-500 font-medium">{t('search.loading')}</p>
+            </div>
+          ) : recipes.length > 0 ? (
+            <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-8">
+              {sortedRecipes.map((recipe) => (
+                <MealBox key={recipe.id} meal={recipe} />
+              ))}
+            </div>
+          ) : (
+            <div className="min-h-[40vh] flex flex-col items-center justify-center text-gray-400">
+              <SearchX size={64} className="mb-4 opacity-50" />
+              <h3 className="text-xl font-medium text-gray-600">{t('search.noResults')}</h3>
+              <p>{t('search.tryDifferent')}</p>
+            </div>
+          )}
         </div>
-      )}
+      </div>
     </div>
   );
 };
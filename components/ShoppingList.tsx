@@ -0,0 +1,135 @@
+import React, { useMemo } from 'react';
+import { Link } from 'react-router-dom';
+import { useTranslation } from 'react-i18next';
+import { ArrowLeft, ShoppingCart, X } from 'lucide-react';
+import { useShoppingList } from '../hooks/useShoppingList';
+import { useUnitSystem } from '../hooks/useUnitSystem';
+import { formatIngredient } from '../utils/ingredients';
+import { convertIngredient } from '../utils/units';
+import { getRecipePath } from '../utils/recipeSlug';
+import { getItemIngredient, groupByAisle } from '../utils/shoppingList';
+import UnitSwitcher from './UnitSwitcher';
+
+const ShoppingList: React.FC = () => {
+  const { t } = useTranslation();
+  const { items, removeRecipe, toggleItem, clearChecked, clearAll } = useShoppingList();
+  const { unitSystem } = useUnitSystem();
+
+  const groups = useMemo(() => groupByAisle(items), [items]);
+
+  // Every recipe with something on the list, in the order they were added
+  const recipes = useMemo(() => {
+    const byId = new Map<string, string>();
+    for (const item of items) {
+      for (const source of item.sources) {
+        if (!byId.has(source.recipeId)) byId.set(source.recipeId, source.recipeName);
+      }
+    }
+    return [...byId.entries()].map(([id, name]) => ({ id, name }));
+  }, [items]);
+
+  const checkedCount = items.filter((item) => item.checked).length;
+
+  return (
+    <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8 py-12">
+      <Link
+        to="/"
+        className="inline-flex items-center text-gray-500 hover:text-primary mb-8 transition-colors"
+      >
+        <ArrowLeft size={20} className="mr-2" /> {t('recipeDetail.backToRecipes')}
+      </Link>
+
+      <div className="mb-8">
+        <h2 className="text-3xl font-serif font-bold text-gray-900">{t('shoppingList.title')}</h2>
+        <p className="text-gray-500 mt-2">{t('shoppingList.subtitle')}</p>
+      </div>
+
+      {items.length === 0 ? (
+        <div className="min-h-[40vh] flex flex-col items-center justify-center text-center text-gray-400">
+          <ShoppingCart size={64} className="mb-4 opacity-50" />
+          <h3 className="text-xl font-medium text-gray-600">{t('shoppingList.empty')}</h3>
+          <p>{t('shoppingList.emptyHint')}</p>
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center gap-2 mb-6">
+            {recipes.map((recipe) => (
+              <span
+                key={recipe.id}
+                className="inline-flex items-center gap-1 rounded-full bg-primary/10 text-primary pl-3 pr-1 py-1 text-sm font-medium"
+              >
+                <Link to={getRecipePath(recipe.id)} className="hover:underline">
+                  {recipe.name}
+                </Link>
+                <button
+                  onClick={() => removeRecipe(recipe.id)}
+                  className="p-1 rounded-full hover:bg-primary/20"
+                  aria-label={t('shoppingList.removeRecipe', { recipe: recipe.name })}
+                >
+                  <X size={14} />
+                </button>
+              </span>
+            ))}
+          </div>
+
+          <div className="flex flex-wrap items-center justify-between gap-4 mb-8">
+            <UnitSwitcher />
+            <div className="flex items-center gap-4 text-sm font-medium">
+              <span className="text-gray-500">
+                {t('shoppingList.progress', { checked: checkedCount, total: items.length })}
+              </span>
+              <button
+                onClick={clearChecked}
+                disabled={checkedCount === 0}
+                className="text-primary hover:underline disabled:opacity-40 disabled:no-underline"
+              >
+                {t('shoppingList.clearChecked')}
+              </button>
+              <button onClick={clearAll} className="text-gray-500 hover:text-red-600">
+                {t('shoppingList.clearAll')}
+              </button>
+            </div>
+          </div>
+
+          <div className="space-y-8">
+            {groups.map(({ aisle, items: aisleItems }) => (
+              <section key={aisle}>
+                <h3 className="text-sm font-bold uppercase tracking-wide text-gray-500 mb-3">
+                  {t(`aisles.${aisle}`)}
+                </h3>
+                <ul className="bg-white rounded-2xl border border-gray-100 shadow-sm divide-y divide-gray-100">
+                  {aisleItems.map((item) => (
+                    <li key={item.key}>
+                      <label className="flex items-start gap-3 px-4 py-3 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={item.checked}
+                          onChange={() => toggleItem(item.key)}
+                          className="mt-1 h-4 w-4 rounded border-gray-300 accent-primary"
+                        />
+                        <span
+                          className={item.checked ? 'text-gray-400 line-through' : 'text-gray-800'}
+                        >
+                          {formatIngredient(convertIngredient(getItemIngredient(item), unitSystem))}
+                          {recipes.length > 1 && (
+                            <span className="block text-xs text-gray-400">
+                              {[...new Set(item.sources.map((source) => source.recipeName))].join(
+                                ', '
+                              )}
+                            </span>
+                          )}
+                        </span>
+                      </label>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ShoppingList;
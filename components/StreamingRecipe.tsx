@@ -0,0 +1,80 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { CheckCircle2 } from 'lucide-react';
+import { RecipeDraft } from '../types';
+import { useUnitSystem } from '../hooks/useUnitSystem';
+import { formatIngredient } from '../utils/ingredients';
+import { convertIngredient, convertTemperatures } from '../utils/units';
+
+interface StreamingRecipeProps {
+  draft: RecipeDraft;
+}
+
+/**
+ * Shows a recipe while the model is still writing it: the name, description and ingredients
+ * appear as soon as they arrive and the instructions fill in step by step
+ */
+const StreamingRecipe: React.FC<StreamingRecipeProps> = ({ draft }) => {
+  const { t } = useTranslation();
+  const { unitSystem } = useUnitSystem();
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 py-8" aria-busy="true">
+      <div className="bg-white rounded-3xl overflow-hidden shadow-xl border border-gray-100">
+        <div className="p-8 bg-gradient-to-br from-orange-50 to-white border-b border-orange-100">
+          {draft.category && (
+            <span className="inline-block px-3 py-1 bg-primary text-white text-xs font-bold rounded-full mb-3 uppercase tracking-wider">
+              {draft.category}
+            </span>
+          )}
+          <h1 className="text-3xl sm:text-5xl font-serif font-bold text-gray-900 mb-2">
+            {draft.name}
+          </h1>
+          {draft.shortDescription && (
+            <p className="text-gray-600 text-lg max-w-2xl">{draft.shortDescription}</p>
+          )}
+          <p className="mt-4 flex items-center gap-2 text-sm text-gray-500" role="status">
+            <span className="w-4 h-4 border-2 border-primary border-t-transparent rounded-full animate-spin"></span>
+            <span className="animate-pulse">{t('recipeDetail.writing')}</span>
+          </p>
+        </div>
+
+        <div className="p-8 grid md:grid-cols-3 gap-12">
+          <div className="md:col-span-1">
+            <h3 className="text-2xl font-serif font-bold text-gray-900 mb-4 pb-2 border-b border-gray-200">
+              {t('recipeDetail.ingredients')}
+            </h3>
+            <ul className="space-y-3">
+              {draft.ingredients.map((item, idx) => (
+                <li key={idx} className="flex items-start gap-3 text-gray-700 animate-fade-in">
+                  <CheckCircle2 size={18} className="text-green-500 flex-shrink-0 mt-1" />
+                  <span>{formatIngredient(convertIngredient(item, unitSystem))}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+
+          <div className="md:col-span-2">
+            <h3 className="text-2xl font-serif font-bold text-gray-900 mb-6 pb-2 border-b border-gray-200">
+              {t('recipeDetail.instructions')}
+            </h3>
+            <div className="space-y-8">
+              {draft.instructions.map((step, idx) => (
+                <div key={idx} className="flex gap-4 animate-fade-in">
+                  <div className="flex-shrink-0 w-8 h-8 rounded-full bg-primary text-white flex items-center justify-center font-bold text-sm">
+                    {idx + 1}
+                  </div>
+                  <p className="text-gray-700 leading-relaxed text-lg">
+                    {convertTemperatures(step, unitSystem)}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StreamingRecipe;
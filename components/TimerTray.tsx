@@ -0,0 +1,107 @@
+import React, { useEffect, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import { Pause, Play, Plus, Timer, X } from 'lucide-react';
+import { useKitchenTimers, getRemainingMs } from '../hooks/useKitchenTimers';
+import { formatCountdown } from '../utils/stepTimers';
+
+/**
+ * Floating list of running kitchen timers, shown on every page (and over cooking mode)
+ */
+const TimerTray: React.FC = () => {
+  const { t } = useTranslation();
+  const { timers, pauseTimer, resumeTimer, addTime, dismissTimer } = useKitchenTimers();
+  const [now, setNow] = useState(() => Date.now());
+
+  // Tick only while a timer is counting down
+  const isTicking = timers.some((timer) => !timer.done && timer.pausedRemainingMs === null);
+  useEffect(() => {
+    if (!isTicking) return;
+    const tick = () => setNow(Date.now());
+    // The clock stood still while nothing ran, so catch up straight away
+    const immediate = window.setTimeout(tick, 0);
+    const interval = window.setInterval(tick, 1000);
+    return () => {
+      window.clearTimeout(immediate);
+      window.clearInterval(interval);
+    };
+  }, [isTicking]);
+
+  if (timers.length === 0) return null;
+
+  return (
+    <aside
+      aria-label={t('timers.title')}
+      className="fixed bottom-4 right-4 z-[70] w-72 max-w-[calc(100vw-2rem)] space-y-2"
+    >
+      {timers.map((timer) => {
+        const remainingMs = timer.done ? 0 : getRemainingMs(timer, now);
+        const isPaused = timer.pausedRemainingMs !== null;
+        const progress = Math.min(1, Math.max(0, 1 - remainingMs / timer.durationMs));
+        return (
+          <div
+            key={timer.id}
+            className={`rounded-2xl shadow-lg overflow-hidden ${
+              timer.done ? 'bg-red-600 text-white animate-pulse' : 'bg-white text-gray-900'
+            }`}
+          >
+            <div className="flex items-center gap-3 px-4 py-3">
+              <Timer size={20} className={timer.done ? '' : 'text-primary'} />
+              <div className="min-w-0 flex-1">
+                <p
+                  className={`truncate text-xs ${timer.done ? 'text-red-100' : 'text-gray-500'}`}
+                  title={timer.label}
+                >
+                  {timer.label}
+                </p>
+                <p className="font-mono text-xl font-bold" role={timer.done ? 'alert' : undefined}>
+                  {timer.done ? t('timers.done') : formatCountdown(remainingMs / 1000)}
+                </p>
+              </div>
+              {!timer.done && (
+                <button
+                  onClick={() => (isPaused ? resumeTimer(timer.id) : pauseTimer(timer.id))}
+                  className="p-2 rounded-full text-gray-500 hover:bg-gray-100 hover:text-primary"
+                  aria-label={
+                    isPaused
+                      ? t('timers.resume', { label: timer.label })
+                      : t('timers.pause', { label: timer.label })
+                  }
+                >
+                  {isPaused ? <Play size={18} /> : <Pause size={18} />}
+                </button>
+              )}
+              <button
+                onClick={() => addTime(timer.id, 60)}
+                className={`inline-flex items-center rounded-full px-2 py-1 text-xs font-semibold ${
+                  timer.done ? 'hover:bg-white/20' : 'text-gray-500 hover:bg-gray-100'
+                }`}
+                aria-label={t('timers.addMinute', { label: timer.label })}
+              >
+                <Plus size={14} />1
+              </button>
+              <button
+                onClick={() => dismissTimer(timer.id)}
+                className={`p-2 rounded-full ${
+                  timer.done ? 'hover:bg-white/20' : 'text-gray-400 hover:bg-gray-100'
+                }`}
+                aria-label={t('timers.dismiss', { label: timer.label })}
+              >
+                <X size={18} />
+              </button>
+            </div>
+            {!timer.done && (
+              <div className="h-1 bg-gray-100">
+                <div
+                  className={`h-full ${isPaused ? 'bg-gray-400' : 'bg-primary'}`}
+                  style={{ width: `${progress * 100}%` }}
+                />
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </aside>
+  );
+};
+
+export default TimerTray;
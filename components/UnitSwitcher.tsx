@@ -0,0 +1,34 @@
+import React from 'react';
+import { useTranslation } from 'react-i18next';
+import { UNIT_SYSTEMS, useUnitSystem } from '../hooks/useUnitSystem';
+
+const UnitSwitcher: React.FC = () => {
+  const { t } = useTranslation();
+  const { unitSystem, setUnitSystem } = useUnitSystem();
+
+  return (
+    <div
+      role="radiogroup"
+      aria-label={t('units.select')}
+      className="inline-flex rounded-full bg-gray-100 p-1 text-xs font-semibold"
+    >
+      {UNIT_SYSTEMS.map((system) => (
+        <button
+          key={system}
+          role="radio"
+          aria-checked={unitSystem === system}
+          onClick={() => setUnitSystem(system)}
+          className={`px-3 py-1 rounded-full transition-colors ${
+            unitSystem === system
+              ? 'bg-white text-primary shadow-sm'
+              : 'text-gray-500 hover:text-gray-800'
+          }`}
+        >
+          {t(`units.${system}`)}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default UnitSwitcher;
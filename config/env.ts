@@ -1,44 +1,62 @@
 /**
  * Environment configuration and validation
- * Ensures all required environment variables are present before the app starts
+ * Only settings that are safe to ship in the browser bundle belong here
  */
 
 interface Config {
-  geminiApiKey: string;
-  unsplashAccessKey: string;
+  // Replaces every network service with deterministic offline stand-ins
+  offlineMode: boolean;
+  // Where the backend that holds the model and image keys is served
+  apiBaseUrl: string;
+  // Pacing for this browser's model requests; the server enforces the hard limits
+  modelMaxConcurrent: number;
+  modelRequestsPerMinute: number;
+  recipeCacheTtlMinutes: number;
+  // Budget for the cached recipes' serialized size
+  recipeCacheMaxKb: number;
   isDevelopment: boolean;
   isProduction: boolean;
 }
 
-/**
- * Validates and retrieves environment variables
- * Throws an error if required variables are missing
- */
-function validateEnv(): Config {
-  const geminiApiKey = import.meta.env.VITE_GEMINI_API_KEY;
-  const unsplashAccessKey = import.meta.env.VITE_UNSPLASH_ACCESS_KEY;
+const DEFAULT_API_BASE_URL = '/api';
 
-  const missingVars: string[] = [];
+const DEFAULT_MODEL_MAX_CONCURRENT = 2;
+const DEFAULT_MODEL_REQUESTS_PER_MINUTE = 10;
 
-  if (!geminiApiKey) {
-    missingVars.push('VITE_GEMINI_API_KEY');
-  }
-
-  if (!unsplashAccessKey) {
-    missingVars.push('VITE_UNSPLASH_ACCESS_KEY');
-  }
+const DEFAULT_RECIPE_CACHE_TTL_MINUTES = 7 * 24 * 60; // 1 week
+const DEFAULT_RECIPE_CACHE_MAX_KB = 5 * 1024; // 5 MB
 
-  if (missingVars.length > 0) {
-    throw new Error(
-      `Missing required environment variables:\n${missingVars.map((v) => `  - ${v}`).join('\n')}\n\n` +
-        'Please create a .env file in the project root with these variables.\n' +
-        'See .env.example for reference.'
-    );
-  }
+/**
+ * Reads an optional positive number, falling back to the default when unset or invalid
+ */
+function readPositiveNumber(value: string | undefined, fallback: number): number {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+}
 
+/**
+ * Validates and retrieves environment variables
+ * API keys are server-side only (see api/_lib/config.ts), so nothing here is required
+ */
+function validateEnv(): Config {
   return {
-    geminiApiKey,
-    unsplashAccessKey,
+    offlineMode: import.meta.env.VITE_OFFLINE_MODE === 'true',
+    apiBaseUrl: (import.meta.env.VITE_API_BASE_URL || DEFAULT_API_BASE_URL).replace(/\/+$/, ''),
+    modelMaxConcurrent: Math.floor(
+      readPositiveNumber(import.meta.env.VITE_MODEL_MAX_CONCURRENT, DEFAULT_MODEL_MAX_CONCURRENT)
+    ),
+    modelRequestsPerMinute: readPositiveNumber(
+      import.meta.env.VITE_MODEL_REQUESTS_PER_MINUTE,
+      DEFAULT_MODEL_REQUESTS_PER_MINUTE
+    ),
+    recipeCacheTtlMinutes: readPositiveNumber(
+      import.meta.env.VITE_RECIPE_CACHE_TTL_MINUTES,
+      DEFAULT_RECIPE_CACHE_TTL_MINUTES
+    ),
+    recipeCacheMaxKb: readPositiveNumber(
+      import.meta.env.VITE_RECIPE_CACHE_MAX_KB,
+      DEFAULT_RECIPE_CACHE_MAX_KB
+    ),
     isDevelopment: import.meta.env.DEV,
     isProduction: import.meta.env.PROD,
   };
@@ -0,0 +1,15 @@
+import { useSyncExternalStore } from 'react';
+import { dietaryProfileStore } from '../services/dietaryProfile';
+
+/**
+ * Hook for reading and changing the dietary profile (diets to follow and allergens to avoid)
+ * The profile is persisted in localStorage and applied to every search
+ */
+export const useDietaryProfile = () => {
+  const profile = useSyncExternalStore(
+    dietaryProfileStore.subscribe,
+    dietaryProfileStore.get,
+    dietaryProfileStore.get
+  );
+  return { profile, setProfile: dietaryProfileStore.set };
+};
@@ -0,0 +1,135 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { KitchenTimer } from '../types';
+import { createPersistedStore } from '../utils/persistedStore';
+import { announceTimerDone, prepareTimerAlerts } from '../utils/timerAlerts';
+
+/**
+ * Milliseconds left on a timer; negative once it has run out
+ */
+export const getRemainingMs = (timer: KitchenTimer, now: number): number =>
+  timer.pausedRemainingMs ?? timer.endsAt - now;
+
+const parseTimers = (stored: unknown): KitchenTimer[] | undefined => {
+  if (!Array.isArray(stored)) return undefined;
+  const now = Date.now();
+  return (
+    stored.filter(
+      (timer: Partial<KitchenTimer>) =>
+        typeof timer?.id === 'number' && typeof timer.endsAt === 'number'
+    ) as KitchenTimer[]
+  ).map((timer) =>
+    // Ran out while the app was closed; too late to ring, so just show it as done
+    !timer.done && getRemainingMs(timer, now) <= 0 ? { ...timer, done: true } : timer
+  );
+};
+
+// Timers live outside any component so they keep running across route changes
+const store = createPersistedStore('kitchenTimers', parseTimers, []);
+let nextTimerId = Math.max(0, ...store.get().map((timer) => timer.id + 1));
+const completions = new Map<number, number>();
+const stopRinging = new Map<number, () => void>();
+
+const updateTimer = (id: number, update: (timer: KitchenTimer) => KitchenTimer) => {
+  store.set(store.get().map((timer) => (timer.id === id ? update(timer) : timer)));
+};
+
+const finishTimer = (id: number) => {
+  completions.delete(id);
+  const timer = store.get().find((other) => other.id === id);
+  if (!timer || timer.done) return;
+
+  updateTimer(id, (current) => ({ ...current, done: true }));
+  stopRinging.set(id, announceTimerDone(timer.label));
+};
+
+/**
+ * Sets (or resets) the one-shot timeout that completes a running timer
+ */
+const scheduleCompletion = (timer: KitchenTimer) => {
+  window.clearTimeout(completions.get(timer.id));
+  completions.delete(timer.id);
+  if (timer.done || timer.pausedRemainingMs !== null) return;
+
+  completions.set(
+    timer.id,
+    window.setTimeout(() => finishTimer(timer.id), Math.max(0, timer.endsAt - Date.now()))
+  );
+};
+
+store.get().forEach(scheduleCompletion);
+
+const silence = (id: number) => {
+  stopRinging.get(id)?.();
+  stopRinging.delete(id);
+};
+
+/**
+ * Hook for the kitchen timers shown in the floating tray
+ * Several timers can run at once; each rings and sends a notification when it finishes
+ */
+export const useKitchenTimers = () => {
+  const timers = useSyncExternalStore(store.subscribe, store.get, store.get);
+
+  const startTimer = useCallback((label: string, seconds: number) => {
+    prepareTimerAlerts();
+    const durationMs = seconds * 1000;
+    const timer: KitchenTimer = {
+      id: nextTimerId++,
+      label,
+      durationMs,
+      endsAt: Date.now() + durationMs,
+      pausedRemainingMs: null,
+      done: false,
+    };
+    store.set([...store.get(), timer]);
+    scheduleCompletion(timer);
+  }, []);
+
+  const pauseTimer = useCallback((id: number) => {
+    updateTimer(id, (timer) =>
+      timer.done || timer.pausedRemainingMs !== null
+        ? timer
+        : { ...timer, pausedRemainingMs: Math.max(0, timer.endsAt - Date.now()) }
+    );
+    const timer = store.get().find((other) => other.id === id);
+    if (timer) scheduleCompletion(timer);
+  }, []);
+
+  const resumeTimer = useCallback((id: number) => {
+    updateTimer(id, (timer) =>
+      timer.pausedRemainingMs === null
+        ? timer
+        : { ...timer, endsAt: Date.now() + timer.pausedRemainingMs, pausedRemainingMs: null }
+    );
+    const timer = store.get().find((other) => other.id === id);
+    if (timer) scheduleCompletion(timer);
+  }, []);
+
+  // Also restarts a finished timer, for "needs another minute" moments
+  const addTime = useCallback((id: number, seconds: number) => {
+    silence(id);
+    const extraMs = seconds * 1000;
+    const now = Date.now();
+    updateTimer(id, (timer) => {
+      if (timer.pausedRemainingMs !== null) {
+        return { ...timer, pausedRemainingMs: timer.pausedRemainingMs + extraMs };
+      }
+      return {
+        ...timer,
+        endsAt: Math.max(timer.endsAt, now) + extraMs,
+        done: false,
+      };
+    });
+    const timer = store.get().find((other) => other.id === id);
+    if (timer) scheduleCompletion(timer);
+  }, []);
+
+  const dismissTimer = useCallback((id: number) => {
+    silence(id);
+    window.clearTimeout(completions.get(id));
+    completions.delete(id);
+    store.set(store.get().filter((timer) => timer.id !== id));
+  }, []);
+
+  return { timers, startTimer, pauseTimer, resumeTimer, addTime, dismissTimer };
+};
@@ -0,0 +1,54 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { MealSlot, PlannedMeal, RecipeSummary } from '../types';
+import { MEAL_SLOTS, WEEK_DAYS, placeMeal, removeMeal } from '../utils/mealPlan';
+import { createPersistedStore } from '../utils/persistedStore';
+
+const isPlannedMeal = (value: unknown): value is PlannedMeal => {
+  const meal = value as Partial<PlannedMeal> | null;
+  return (
+    WEEK_DAYS.includes(meal?.day as number) &&
+    MEAL_SLOTS.includes(meal?.slot as MealSlot) &&
+    typeof meal?.recipe?.id === 'string'
+  );
+};
+
+const store = createPersistedStore(
+  'mealPlan',
+  (stored) => (Array.isArray(stored) ? stored.filter(isPlannedMeal) : undefined),
+  [] as PlannedMeal[]
+);
+
+/**
+ * Hook for the weekly meal plan, persisted in localStorage
+ */
+export const useMealPlan = () => {
+  const plan = useSyncExternalStore(store.subscribe, store.get, store.get);
+
+  const setMeal = useCallback((day: number, slot: MealSlot, recipe: RecipeSummary) => {
+    store.set(placeMeal(store.get(), { day, slot, recipe }));
+  }, []);
+
+  // Moving onto an occupied slot swaps the two meals
+  const moveMeal = useCallback(
+    (from: { day: number; slot: MealSlot }, to: { day: number; slot: MealSlot }) => {
+      const current = store.get();
+      const moving = current.find((meal) => meal.day === from.day && meal.slot === from.slot);
+      if (!moving) return;
+      const displaced = current.find((meal) => meal.day === to.day && meal.slot === to.slot);
+      let next = placeMeal(removeMeal(current, from.day, from.slot), { ...moving, ...to });
+      if (displaced) next = placeMeal(next, { ...displaced, ...from });
+      store.set(next);
+    },
+    []
+  );
+
+  const clearMeal = useCallback((day: number, slot: MealSlot) => {
+    store.set(removeMeal(store.get(), day, slot));
+  }, []);
+
+  const replacePlan = useCallback((meals: PlannedMeal[]) => {
+    store.set(meals);
+  }, []);
+
+  return { plan, setMeal, moveMeal, clearMeal, replacePlan };
+};
@@ -1,23 +1,52 @@
 import { useState, useEffect, useCallback, useRef } from 'react';
 import { useTranslation } from 'react-i18next';
-import { RecipeDetail, LoadingState } from '../types';
-import { fetchRecipeDetails } from '../services/geminiService';
+import { RecipeDetail, RecipeDraft, LoadingState, SavedRecipe } from '../types';
+import {
+  fetchRecipeDetails,
+  resolveRecipeSlug,
+  translateRecipeDetail,
+} from '../services/geminiService';
+import { getSavedRecipe } from '../services/savedRecipesService';
+import { useDietaryProfile } from './useDietaryProfile';
+
+/**
+ * Saved copies open without regenerating; in another language they are translated, since
+ * generating the recipe again could give a different dish
+ */
+const loadSavedRecipe = async (
+  recipeId: string,
+  language: string
+): Promise<RecipeDetail | null> => {
+  let entry: SavedRecipe | null;
+  try {
+    entry = await getSavedRecipe(recipeId);
+  } catch {
+    // IndexedDB unavailable; fall back to fetching
+    return null;
+  }
+  return entry && translateRecipeDetail(entry.recipe, entry.language, language);
+};
 
 /**
  * Custom hook for fetching and managing recipe data with caching
  * Prevents unnecessary re-fetches and optimizes performance
+ * @param slug - The /recipe/:slug route parameter
  */
-export const useRecipe = (recipeName: string | undefined) => {
+export const useRecipe = (slug: string | undefined) => {
   const { i18n } = useTranslation();
+  // Generated recipes are adapted to the profile, so a change refetches them
+  const { profile } = useDietaryProfile();
   const [recipe, setRecipe] = useState<RecipeDetail | null>(null);
   const [status, setStatus] = useState<LoadingState>(LoadingState.IDLE);
+  // What has streamed in so far while a recipe is generated
+  const [draft, setDraft] = useState<RecipeDraft | null>(null);
 
   // Prevent double fetches
   const fetchInProgressRef = useRef(false);
   const lastFetchKeyRef = useRef<string>('');
 
   const loadRecipe = useCallback(async () => {
-    if (!recipeName) {
+    if (!slug) {
       setStatus(LoadingState.IDLE);
       setRecipe(null);
       fetchInProgressRef.current = false;
@@ -25,8 +54,8 @@ export const useRecipe = (recipeName: string | undefined) => {
       return;
     }
 
-    // Create unique key for this fetch (recipe name + language)
-    const fetchKey = `${recipeName}:${i18n.language}`;
+    // Create unique key for this fetch (recipe slug + language)
+    const fetchKey = `${slug}:${i18n.language}`;
 
     // Skip if already fetching the exact same recipe in the same language
     if (fetchInProgressRef.current && lastFetchKeyRef.current === fetchKey) {
@@ -37,13 +66,19 @@ export const useRecipe = (recipeName: string | undefined) => {
     fetchInProgressRef.current = true;
     lastFetchKeyRef.current = fetchKey;
     setStatus(LoadingState.LOADING);
+    setDraft(null);
 
     try {
-      const data = await fetchRecipeDetails(recipeName, i18n.language);
+      const { id, name } = resolveRecipeSlug(slug);
+      const data =
+        (await loadSavedRecipe(id, i18n.language)) ??
+        (await fetchRecipeDetails(name, i18n.language, (next) => {
+          if (lastFetchKeyRef.current === fetchKey) setDraft(next);
+        }));
 
       // Critical: Check if this fetch is still relevant
       // (user might have switched recipe/language while we were fetching)
-      const currentFetchKey = `${recipeName}:${i18n.language}`;
+      const currentFetchKey = `${slug}:${i18n.language}`;
       if (currentFetchKey !== fetchKey) {
         // Stale fetch, ignore result
         return;
@@ -62,15 +97,17 @@ export const useRecipe = (recipeName: string | undefined) => {
       setStatus(LoadingState.ERROR);
     } finally {
       fetchInProgressRef.current = false;
+      if (lastFetchKeyRef.current === fetchKey) setDraft(null);
     }
-  }, [recipeName, i18n.language]);
+  }, [slug, i18n.language]);
 
   useEffect(() => {
     loadRecipe();
-  }, [loadRecipe]);
+  }, [loadRecipe, profile]);
 
   return {
     recipe,
+    draft,
     status,
     isLoading: status === LoadingState.LOADING,
     isError: status === LoadingState.ERROR,
@@ -0,0 +1,67 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { RecipeDetail, SavedRecipe } from '../types';
+import { getSavedRecipes, removeSavedRecipe, saveRecipe } from '../services/savedRecipesService';
+
+interface SavedRecipesState {
+  recipes: SavedRecipe[];
+  isLoaded: boolean;
+}
+
+// Shared across every component using the hook; loaded from IndexedDB on first use
+let state: SavedRecipesState = { recipes: [], isLoaded: false };
+let loadStarted = false;
+const listeners = new Set<() => void>();
+
+const setState = (next: SavedRecipesState) => {
+  state = next;
+  listeners.forEach((listener) => listener());
+};
+
+const load = () => {
+  if (loadStarted) return;
+  loadStarted = true;
+  getSavedRecipes()
+    .then((recipes) => setState({ recipes, isLoaded: true }))
+    .catch((error) => {
+      console.error('[Saved] Failed to load saved recipes:', error);
+      setState({ ...state, isLoaded: true });
+    });
+};
+
+const subscribe = (listener: () => void) => {
+  load();
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const getSnapshot = () => state;
+
+/**
+ * Hook for the user's saved recipes, persisted in IndexedDB
+ * Recipes are keyed by their canonical id
+ */
+export const useSavedRecipes = () => {
+  const { recipes, isLoaded } = useSyncExternalStore(subscribe, getSnapshot, getSnapshot);
+
+  const isSaved = useCallback(
+    (recipeId: string) => recipes.some((entry) => entry.key === recipeId),
+    [recipes]
+  );
+
+  const save = useCallback(async (recipeId: string, recipe: RecipeDetail, language: string) => {
+    const entry = await saveRecipe(recipeId, recipe, language);
+    setState({
+      ...state,
+      recipes: [entry, ...state.recipes.filter((other) => other.key !== entry.key)],
+    });
+  }, []);
+
+  const remove = useCallback(async (recipeId: string) => {
+    await removeSavedRecipe(recipeId);
+    setState({ ...state, recipes: state.recipes.filter((entry) => entry.key !== recipeId) });
+  }, []);
+
+  return { savedRecipes: recipes, isLoaded, isSaved, save, remove };
+};
@@ -0,0 +1,56 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { Ingredient, RecipeDetail, ShoppingListItem } from '../types';
+import { createPersistedStore } from '../utils/persistedStore';
+import { addRecipeToList, removeRecipeFromList } from '../utils/shoppingList';
+
+const parseItems = (stored: unknown): ShoppingListItem[] | undefined =>
+  Array.isArray(stored)
+    ? (stored.filter(
+        (item: Partial<ShoppingListItem>) =>
+          typeof item?.key === 'string' && Array.isArray(item.sources)
+      ) as ShoppingListItem[])
+    : undefined;
+
+const store = createPersistedStore('shoppingList', parseItems, []);
+
+/**
+ * Hook for the shopping list built from recipes' ingredients
+ * Lines merge the same item across recipes; the list is persisted in localStorage
+ */
+export const useShoppingList = () => {
+  const items = useSyncExternalStore(store.subscribe, store.get, store.get);
+
+  // Ingredients are passed in separately so they can be scaled to the servings being cooked
+  const addRecipe = useCallback(
+    (recipe: Pick<RecipeDetail, 'id' | 'name'>, ingredients: Ingredient[]) => {
+      store.set(addRecipeToList(store.get(), recipe, ingredients));
+    },
+    []
+  );
+
+  const removeRecipe = useCallback((recipeId: string) => {
+    store.set(removeRecipeFromList(store.get(), recipeId));
+  }, []);
+
+  const toggleItem = useCallback((key: string) => {
+    store.set(
+      store.get().map((item) => (item.key === key ? { ...item, checked: !item.checked } : item))
+    );
+  }, []);
+
+  const clearChecked = useCallback(() => {
+    store.set(store.get().filter((item) => !item.checked));
+  }, []);
+
+  const clearAll = useCallback(() => {
+    store.set([]);
+  }, []);
+
+  const hasRecipe = useCallback(
+    (recipeId: string) =>
+      items.some((item) => item.sources.some((source) => source.recipeId === recipeId)),
+    [items]
+  );
+
+  return { items, addRecipe, removeRecipe, toggleItem, clearChecked, clearAll, hasRecipe };
+};
@@ -0,0 +1,34 @@
+import { useSyncExternalStore } from 'react';
+import { UnitSystem } from '../types';
+import { createPersistedStore } from '../utils/persistedStore';
+
+export const UNIT_SYSTEMS: UnitSystem[] = ['metric', 'us', 'uk'];
+
+const isUnitSystem = (value: unknown): value is UnitSystem =>
+  UNIT_SYSTEMS.includes(value as UnitSystem);
+
+/**
+ * Guesses a sensible default from the browser locale when nothing has been stored yet
+ */
+const detectUnitSystem = (): UnitSystem => {
+  const locale = typeof navigator !== 'undefined' ? navigator.language : '';
+  if (/^en-(US|LR)$/i.test(locale) || /^[a-z]+-MM$/i.test(locale)) return 'us';
+  if (/^en-GB$/i.test(locale)) return 'uk';
+  return 'metric';
+};
+
+// Stored next to 'preferredLanguage' written by the LanguageSwitcher
+const store = createPersistedStore(
+  'preferredUnitSystem',
+  (stored) => (isUnitSystem(stored) ? stored : undefined),
+  detectUnitSystem()
+);
+
+/**
+ * Hook for reading and changing the preferred unit system (metric, US or UK)
+ * The choice is persisted in localStorage
+ */
+export const useUnitSystem = () => {
+  const unitSystem = useSyncExternalStore(store.subscribe, store.get, store.get);
+  return { unitSystem, setUnitSystem: store.set };
+};
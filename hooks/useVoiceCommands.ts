@@ -0,0 +1,96 @@
+import { useEffect, useRef, useState } from 'react';
+import { useTranslation } from 'react-i18next';
+import {
+  VOICE_COMMANDS,
+  VoiceCommand,
+  getSpeechRecognition,
+  matchVoiceCommand,
+  toSpeechLocale,
+} from '../utils/speech';
+
+/**
+ * Listens for spoken commands in the current language while `active` is true
+ * Phrases come from the `voiceCommands` translations, so each language has its own wording
+ * @returns Whether the browser can recognise speech, and whether it is listening right now
+ */
+export const useVoiceCommands = (
+  active: boolean,
+  onCommand: (command: VoiceCommand, transcript: string) => void
+) => {
+  const { t, i18n } = useTranslation();
+  const [isListening, setIsListening] = useState(false);
+  const [isBlocked, setIsBlocked] = useState(false);
+  const onCommandRef = useRef(onCommand);
+  const isSupported = getSpeechRecognition() !== null;
+
+  useEffect(() => {
+    onCommandRef.current = onCommand;
+  }, [onCommand]);
+
+  useEffect(() => {
+    const Recognition = getSpeechRecognition();
+    if (!active || !Recognition) return;
+
+    const phrases = Object.fromEntries(
+      VOICE_COMMANDS.map((command) => [command, t(`voiceCommands.${command}`).split('|')])
+    ) as { [command in VoiceCommand]: string[] };
+
+    const recognition = new Recognition();
+    recognition.lang = toSpeechLocale(i18n.language);
+    recognition.continuous = true;
+    recognition.interimResults = false;
+    let stopped = false;
+
+    recognition.onstart = () => setIsListening(true);
+
+    recognition.onresult = (event) => {
+      for (let i = event.resultIndex; i < event.results.length; i++) {
+        const transcript = event.results[i]?.[0]?.transcript ?? '';
+        const command = matchVoiceCommand(transcript, phrases);
+        if (command) onCommandRef.current(command, transcript.trim());
+      }
+    };
+
+    recognition.onerror = (event) => {
+      // Microphone refused or no recognition service; retrying would only fail again
+      if (event.error === 'not-allowed' || event.error === 'service-not-allowed') {
+        stopped = true;
+        setIsBlocked(true);
+      }
+    };
+
+    // Browsers end recognition after a stretch of silence, so keep it going until turned off
+    recognition.onend = () => {
+      if (stopped) {
+        setIsListening(false);
+        return;
+      }
+      try {
+        recognition.start();
+      } catch {
+        setIsListening(false);
+      }
+    };
+
+    try {
+      recognition.start();
+    } catch (error) {
+      stopped = true;
+      if (import.meta.env.DEV) {
+        console.warn('[Voice] Could not start speech recognition:', error);
+      }
+    }
+
+    return () => {
+      stopped = true;
+      recognition.onstart = null;
+      recognition.onresult = null;
+      recognition.onerror = null;
+      recognition.onend = null;
+      recognition.abort();
+      setIsListening(false);
+    };
+  }, [active, i18n.language, t]);
+
+  return { isSupported, isListening: active && isListening, isBlocked };
+};
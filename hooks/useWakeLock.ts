@@ -0,0 +1,47 @@
+import { useEffect } from 'react';
+
+/**
+ * Keeps the screen on while `active` is true, using the Screen Wake Lock API where supported
+ * Browsers drop the lock when the page is hidden, so it is taken again when the page returns
+ */
+export const useWakeLock = (active: boolean) => {
+  useEffect(() => {
+    if (!active || typeof navigator === 'undefined' || !('wakeLock' in navigator)) return;
+
+    let sentinel: WakeLockSentinel | null = null;
+    let released = false;
+
+    const acquire = async () => {
+      try {
+        const lock = await navigator.wakeLock.request('screen');
+        if (released) {
+          await lock.release();
+        } else {
+          sentinel = lock;
+        }
+      } catch (error) {
+        // Denied, e.g. by battery saver; cooking mode still works without it
+        if (import.meta.env.DEV) {
+          console.warn('[WakeLock] Could not keep the screen on:', error);
+        }
+      }
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible' && (!sentinel || sentinel.released)) {
+        acquire();
+      }
+    };
+
+    acquire();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      released = true;
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      sentinel?.release().catch(() => {
+        // Already released by the browser
+      });
+    };
+  }, [active]);
+};
@@ -0,0 +1,73 @@
+/**
+ * Thin fetch wrapper for the app's own /api endpoints
+ */
+
+import { config } from '../config/env';
+
+/**
+ * A failed call to the app's backend, with the HTTP status it answered with
+ * The status is part of the message so quota errors (429) are recognised like provider ones
+ */
+export class ApiError extends Error {
+  readonly status: number;
+  // From Retry-After, when the backend said how long its limit lasts
+  readonly retryAfterMs?: number;
+
+  constructor(status: number, message: string, retryAfterMs?: number) {
+    super(`${status}: ${message}`);
+    this.name = 'ApiError';
+    this.status = status;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+const readRetryAfterMs = (response: Response): number | undefined => {
+  const seconds = Number(response.headers.get('Retry-After') ?? NaN);
+  return Number.isFinite(seconds) && seconds >= 0 ? seconds * 1000 : undefined;
+};
+
+/**
+ * Calls an endpoint under the API base URL, throwing an ApiError unless it succeeds
+ * Sends `body` as a JSON POST when given, otherwise makes a GET
+ */
+export const sendRequest = async (path: string, body?: unknown): Promise<Response> => {
+  const response = await fetch(
+    `${config.apiBaseUrl}${path}`,
+    body === undefined
+      ? undefined
+      : {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body),
+        }
+  );
+
+  if (!response.ok) {
+    const reply = (await response.json().catch(() => null)) as { error?: string } | null;
+    throw new ApiError(
+      response.status,
+      reply?.error || response.statusText,
+      readRetryAfterMs(response)
+    );
+  }
+  return response;
+};
+
+/**
+ * Calls an endpoint and resolves to its JSON reply
+ */
+export const requestJson = async <T>(path: string, body?: unknown): Promise<T> =>
+  (await (await sendRequest(path, body)).json()) as T;
+
+/**
+ * Yields a streamed reply's text as it arrives
+ */
+export async function* readTextStream(response: Response): AsyncIterable<string> {
+  if (!response.body) return;
+  const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) return;
+    yield value;
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * Thin promise wrapper around the app's IndexedDB database
+ */
+
+const DB_NAME = 'recipe-finder';
+const DB_VERSION = 2;
+
+export const SAVED_RECIPES_STORE = 'savedRecipes';
+export const RECIPE_CACHE_STORE = 'recipeCache';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Opens the database once and reuses the connection
+ */
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SAVED_RECIPES_STORE)) {
+          db.createObjectStore(SAVED_RECIPES_STORE, { keyPath: 'key' });
+        }
+        // Added in version 2
+        if (!db.objectStoreNames.contains(RECIPE_CACHE_STORE)) {
+          const store = db.createObjectStore(RECIPE_CACHE_STORE, { keyPath: 'key' });
+          store.createIndex('lastAccessed', 'lastAccessed');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    // Allow a later call to retry if opening failed (e.g. blocked by another tab)
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const toPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Runs a single request against an object store in its own transaction
+ */
+export const withStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return toPromise(run(db.transaction(storeName, mode).objectStore(storeName)));
+};
@@ -0,0 +1,36 @@
+import { DietaryProfile } from '../types';
+import { ALLERGENS } from '../utils/allergens';
+import { createPersistedStore } from '../utils/persistedStore';
+import { DIETARY_TAGS } from '../utils/searchFilters';
+
+/**
+ * The dietary profile (diets to follow and allergens to avoid), persisted in localStorage
+ * Services read it when building prompts; components use the useDietaryProfile hook
+ */
+
+const EMPTY_PROFILE: DietaryProfile = { diets: [], excludedAllergens: [] };
+
+/**
+ * Reads a stored profile, dropping anything the app no longer recognises
+ */
+const parseProfile = (stored: unknown): DietaryProfile | undefined => {
+  if (!stored || typeof stored !== 'object') return undefined;
+  const { diets, excludedAllergens } = stored as Partial<Record<keyof DietaryProfile, unknown>>;
+  return {
+    diets: DIETARY_TAGS.filter((tag) => Array.isArray(diets) && diets.includes(tag)),
+    excludedAllergens: ALLERGENS.filter(
+      (allergen) => Array.isArray(excludedAllergens) && excludedAllergens.includes(allergen)
+    ),
+  };
+};
+
+export const dietaryProfileStore = createPersistedStore(
+  'dietaryProfile',
+  parseProfile,
+  EMPTY_PROFILE
+);
+
+/**
+ * Current profile for code outside React, e.g. services building prompts
+ */
+export const getDietaryProfile = (): DietaryProfile => dietaryProfileStore.get();
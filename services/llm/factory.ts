@@ -0,0 +1,38 @@
+/**
+ * Builds the language model provider named in the server settings
+ */
+
+import { LlmProvider, LlmProviderName } from './provider';
+import { createGeminiProvider } from './geminiProvider';
+import { createOpenAiProvider } from './openAiProvider';
+import { createMockProvider } from './mockProvider';
+
+export interface LlmSettings {
+  provider: LlmProviderName;
+  model: string;
+  geminiApiKey: string;
+  openAiApiKey: string;
+  openAiBaseUrl: string;
+}
+
+export const DEFAULT_LLM_MODELS: { [provider in LlmProviderName]: string } = {
+  gemini: 'gemini-2.5-flash',
+  openai: 'gpt-4o-mini',
+  mock: 'mock',
+};
+export const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+
+export const createLlmProvider = (settings: LlmSettings): LlmProvider => {
+  switch (settings.provider) {
+    case 'gemini':
+      return createGeminiProvider(settings.geminiApiKey, settings.model);
+    case 'openai':
+      return createOpenAiProvider({
+        apiKey: settings.openAiApiKey,
+        baseUrl: settings.openAiBaseUrl,
+        model: settings.model,
+      });
+    case 'mock':
+      return createMockProvider(settings.model);
+  }
+};
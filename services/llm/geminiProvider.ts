@@ -0,0 +1,81 @@
+/**
+ * Google Gemini, through the official SDK
+ */
+
+import { ApiError, GoogleGenAI, Schema, Type } from '@google/genai';
+import { JsonSchema, LlmError, LlmProvider, parseJsonResponse } from './provider';
+
+const SCHEMA_TYPES: { [type in JsonSchema['type']]: Type } = {
+  string: Type.STRING,
+  number: Type.NUMBER,
+  integer: Type.INTEGER,
+  boolean: Type.BOOLEAN,
+  array: Type.ARRAY,
+  object: Type.OBJECT,
+};
+
+const toGeminiSchema = (schema: JsonSchema): Schema => ({
+  type: SCHEMA_TYPES[schema.type],
+  ...(schema.properties && {
+    properties: Object.fromEntries(
+      Object.entries(schema.properties).map(([name, property]) => [name, toGeminiSchema(property)])
+    ),
+    // Gemini sorts properties alphabetically otherwise; streamed replies rely on schema order
+    propertyOrdering: Object.keys(schema.properties),
+  }),
+  ...(schema.required && { required: schema.required }),
+  ...(schema.items && { items: toGeminiSchema(schema.items) }),
+  ...(schema.enum && { format: 'enum', enum: [...schema.enum] }),
+  ...(schema.nullable && { nullable: true }),
+});
+
+const toLlmError = (error: unknown): LlmError =>
+  error instanceof ApiError
+    ? new LlmError('gemini', error.message, error.status)
+    : new LlmError('gemini', error instanceof Error ? error.message : String(error));
+
+export const createGeminiProvider = (apiKey: string, model: string): LlmProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  const generate = async (prompt: string, schema?: JsonSchema, json = false): Promise<string> => {
+    try {
+      const result = await ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: json
+          ? {
+              responseMimeType: 'application/json',
+              ...(schema && { responseSchema: toGeminiSchema(schema) }),
+            }
+          : undefined,
+      });
+      return result.text?.trim() ?? '';
+    } catch (error) {
+      throw toLlmError(error);
+    }
+  };
+
+  async function* stream(prompt: string, schema: JsonSchema): AsyncIterable<string> {
+    try {
+      const chunks = await ai.models.generateContentStream({
+        model,
+        contents: prompt,
+        config: { responseMimeType: 'application/json', responseSchema: toGeminiSchema(schema) },
+      });
+      for await (const chunk of chunks) {
+        if (chunk.text) yield chunk.text;
+      }
+    } catch (error) {
+      throw toLlmError(error);
+    }
+  }
+
+  return {
+    name: 'gemini',
+    model,
+    generateText: (prompt) => generate(prompt),
+    generateJson: async <T>(prompt: string, schema?: JsonSchema) =>
+      parseJsonResponse<T>('gemini', await generate(prompt, schema, true)),
+    streamJson: stream,
+  };
+};
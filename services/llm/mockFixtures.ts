@@ -0,0 +1,147 @@
+/**
+ * Word lists the offline mock provider builds recipes and translations from
+ */
+
+export const NAME_STYLES = [
+  'Rustic',
+  'Smoky',
+  'Herbed',
+  'Golden',
+  'Spiced',
+  'Lemony',
+  'Garlicky',
+  'Crispy',
+  'Creamy',
+  'Zesty',
+];
+
+export const DISH_TYPES = [
+  'Bowl',
+  'Skillet',
+  'Bake',
+  'Stew',
+  'Salad',
+  'Stir Fry',
+  'Curry',
+  'Wraps',
+];
+
+export const CATEGORIES = [
+  'Italian',
+  'Japanese',
+  'Mexican',
+  'Indian',
+  'Thai',
+  'Vegan',
+  'Dessert',
+  'Mediterranean',
+  'General',
+];
+
+// Dishes for generated meal plans, by slot
+export const PLANNED_DISHES: { [slot: string]: string[] } = {
+  breakfast: [
+    'Overnight Oats',
+    'Veggie Omelette',
+    'Banana Pancakes',
+    'Greek Yogurt Parfait',
+    'Avocado Toast',
+    'Shakshuka',
+    'Berry Smoothie Bowl',
+  ],
+  lunch: [
+    'Lentil Soup',
+    'Chicken Caesar Wrap',
+    'Quinoa Buddha Bowl',
+    'Caprese Sandwich',
+    'Miso Soup',
+    'Falafel Pita',
+    'Greek Salad',
+  ],
+  dinner: [
+    'Chickpea Curry',
+    'Grilled Fish',
+    'Pesto Pasta',
+    'Teriyaki Chicken',
+    'Veggie Stir Fry',
+    'Beef Tacos',
+    'Risotto Milanese',
+  ],
+};
+
+export interface FixtureIngredient {
+  quantity: number | null;
+  unit: string | null;
+  item: string;
+}
+
+export const INGREDIENTS: FixtureIngredient[] = [
+  { quantity: 2, unit: 'tbsp', item: 'olive oil' },
+  { quantity: 1, unit: null, item: 'onion' },
+  { quantity: 3, unit: 'clove', item: 'garlic' },
+  { quantity: 400, unit: 'g', item: 'canned tomatoes' },
+  { quantity: 1, unit: 'tsp', item: 'ground cumin' },
+  { quantity: 200, unit: 'g', item: 'rice' },
+  { quantity: 1, unit: null, item: 'red bell pepper' },
+  { quantity: 250, unit: 'ml', item: 'vegetable stock' },
+  { quantity: 1, unit: null, item: 'lemon' },
+  { quantity: 2, unit: 'cup', item: 'spinach' },
+  { quantity: 1, unit: 'tbsp', item: 'soy sauce' },
+  { quantity: 2, unit: null, item: 'carrots' },
+  { quantity: null, unit: null, item: 'salt and black pepper' },
+  { quantity: null, unit: null, item: 'fresh parsley' },
+];
+
+export const INSTRUCTIONS = [
+  'Prepare and measure all of the ingredients',
+  'Heat the {ingredient} in a large pan over medium heat',
+  'Add the {ingredient} and cook for 5 minutes, stirring often',
+  'Stir in the {ingredient} and let it simmer for 10 minutes',
+  'Season to taste and adjust the consistency with a splash of water',
+  'Add the {ingredient} and cook for 2 more minutes',
+  'Take the pan off the heat and rest for 5 minutes',
+  'Serve warm, garnished with the {ingredient}',
+];
+
+export const TIPS = [
+  'Prepare everything before you start cooking; it comes together quickly',
+  'Leftovers keep in the fridge for up to 3 days',
+  'Taste and adjust the seasoning just before serving',
+  'Swap in whatever seasonal vegetables you have on hand',
+];
+
+// A few common food words, for translating search queries to English without a model
+export const QUERY_DICTIONARY: { [word: string]: string } = {
+  // Spanish
+  pollo: 'chicken',
+  carne: 'beef',
+  cerdo: 'pork',
+  pescado: 'fish',
+  arroz: 'rice',
+  sopa: 'soup',
+  ensalada: 'salad',
+  pasta: 'pasta',
+  postre: 'dessert',
+  verduras: 'vegetables',
+  // Hindi
+  चिकन: 'chicken',
+  चावल: 'rice',
+  दाल: 'lentils',
+  पनीर: 'paneer',
+  सब्ज़ी: 'vegetables',
+  मिठाई: 'dessert',
+  // Japanese
+  鶏肉: 'chicken',
+  チキン: 'chicken',
+  ご飯: 'rice',
+  ラーメン: 'ramen',
+  寿司: 'sushi',
+  スープ: 'soup',
+  カレー: 'curry',
+  // Thai
+  ไก่: 'chicken',
+  ข้าว: 'rice',
+  แกง: 'curry',
+  ซุป: 'soup',
+  ผัด: 'stir fry',
+};
@@ -0,0 +1,245 @@
+/**
+ * Offline stand-in that answers without a network or API key
+ * Replies are derived from the prompt alone, so the same prompt always gets the same reply:
+ * recipe schemas get plausible recipes assembled from fixtures, translations into English go
+ * through a small dictionary, and other translations return their input unchanged
+ */
+
+import { JsonSchema, LlmProvider, parseJsonResponse } from './provider';
+import {
+  CATEGORIES,
+  DISH_TYPES,
+  INGREDIENTS,
+  INSTRUCTIONS,
+  NAME_STYLES,
+  PLANNED_DISHES,
+  QUERY_DICTIONARY,
+  TIPS,
+} from './mockFixtures';
+
+// Prompts ask for this many search or pantry results
+const GENERATED_RECIPE_COUNT = 6;
+const PLANNED_DAY_COUNT = 7;
+// Streamed replies arrive a few words at a time
+const STREAM_CHUNK_LENGTH = 24;
+const STREAM_CHUNK_DELAY_MS = 30;
+
+interface MockContext {
+  random: () => number;
+  // The first quoted phrase in the prompt: the search query, recipe name or plan request
+  subject: string | null;
+  // Ingredients listed in a pantry prompt
+  pantry: string[];
+}
+
+/**
+ * Small deterministic hash (FNV-1a) used to seed replies from the prompt
+ */
+const hashText = (text: string): number => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+};
+
+/**
+ * Seeded pseudo-random numbers in [0, 1) (mulberry32)
+ */
+const createRandom = (seed: number): (() => number) => {
+  let state = seed;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const pick = <T>(random: () => number, list: readonly T[]): T =>
+  list[Math.floor(random() * list.length)] as T;
+
+const randomStep = (random: () => number, min: number, max: number, step: number): number =>
+  min + Math.floor(random() * ((max - min) / step + 1)) * step;
+
+const toTitleCase = (text: string): string =>
+  text.replace(/\p{L}+/gu, (word) => word.charAt(0).toUpperCase() + word.slice(1));
+
+/**
+ * The data a prompt ends with (prompts put the text to work on after a blank line)
+ */
+const getPayload = (prompt: string): string => {
+  const blankLine = prompt.lastIndexOf('\n\n');
+  return (blankLine === -1 ? prompt : prompt.slice(blankLine + 2)).trim();
+};
+
+const translateToEnglish = (text: string): string =>
+  text
+    .split(/\s+/)
+    .map((word) => QUERY_DICTIONARY[word.toLowerCase()] ?? word)
+    .join(' ');
+
+/**
+ * Builds a value matching the schema when nothing better is known about the field
+ */
+const sampleSchema = (schema: JsonSchema, context: MockContext, name = 'value'): unknown => {
+  const { random } = context;
+  switch (schema.type) {
+    case 'string':
+      return schema.enum?.length ? pick(random, schema.enum) : `Mock ${name}`;
+    case 'integer':
+      return randomStep(random, 1, 60, 1);
+    case 'number':
+      return randomStep(random, 1, 200, 1) / 10;
+    case 'boolean':
+      return random() < 0.5;
+    case 'array':
+      return Array.from({ length: 3 }, () =>
+        sampleSchema(schema.items ?? { type: 'string' }, context, name)
+      );
+    case 'object':
+      return Object.fromEntries(
+        Object.entries(schema.properties ?? {}).map(([property, propertySchema]) => [
+          property,
+          sampleSchema(propertySchema, context, property),
+        ])
+      );
+  }
+};
+
+/**
+ * Fills a recipe-shaped schema with fixture data that hangs together
+ * (times add up, nutrition matches the calories, steps mention the ingredients)
+ */
+const buildRecipe = (
+  schema: JsonSchema,
+  context: MockContext,
+  name: string,
+  extra: { [property: string]: unknown } = {}
+): { [property: string]: unknown } => {
+  const { random, pantry } = context;
+  const ingredients = [
+    ...pantry.map((item) => ({ quantity: 1, unit: null, item })),
+    ...INGREDIENTS.filter(() => random() < 0.6),
+  ];
+  const ingredientName = () => pick(random, ingredients.length ? ingredients : INGREDIENTS).item;
+  const prepMinutes = randomStep(random, 5, 30, 5);
+  const cookMinutes = randomStep(random, 0, 50, 5);
+  const kcalPerServing = randomStep(random, 150, 650, 10);
+
+  const fields: { [property: string]: unknown } = {
+    name,
+    category: pick(random, CATEGORIES),
+    shortDescription: `${pick(random, ['Comforting', 'Quick', 'Hearty', 'Light', 'Fresh'])} ${name.toLowerCase()} made with everyday ingredients`,
+    prepMinutes,
+    cookMinutes,
+    totalMinutes: prepMinutes + cookMinutes,
+    kcalPerServing,
+    servings: randomStep(random, 2, 6, 1),
+    nutrition: {
+      proteinG: Math.round((kcalPerServing * 0.2) / 4),
+      carbsG: Math.round((kcalPerServing * 0.5) / 4),
+      fatG: Math.round((kcalPerServing * 0.3) / 9),
+      fiberG: randomStep(random, 1, 10, 1),
+      sugarG: randomStep(random, 1, 20, 1),
+      sodiumMg: randomStep(random, 100, 1200, 10),
+    },
+    ingredients:
+      schema.properties?.ingredients?.items?.type === 'string'
+        ? ingredients.map((ingredient) => ingredient.item)
+        : ingredients,
+    instructions: INSTRUCTIONS.map((step) => step.replace('{ingredient}', ingredientName())),
+    tips: TIPS.filter(() => random() < 0.75),
+    ...extra,
+  };
+
+  return Object.fromEntries(
+    Object.entries(schema.properties ?? {}).map(([property, propertySchema]) => [
+      property,
+      property in fields ? fields[property] : sampleSchema(propertySchema, context, property),
+    ])
+  );
+};
+
+/**
+ * A week of meals, one per day and slot, from the fixture dishes
+ */
+const buildMealPlan = (schema: JsonSchema, context: MockContext): unknown[] => {
+  const slots = schema.properties?.slot?.enum ?? Object.keys(PLANNED_DISHES);
+  const offset = Math.floor(context.random() * PLANNED_DAY_COUNT);
+  return Array.from({ length: PLANNED_DAY_COUNT }, (_, index) => index + 1).flatMap((day) =>
+    slots.map((slot) => {
+      const dishes = PLANNED_DISHES[slot] ?? PLANNED_DISHES.dinner ?? [];
+      const name = dishes[(day + offset) % dishes.length] ?? `Mock ${slot}`;
+      return buildRecipe(schema, context, name, { day, slot });
+    })
+  );
+};
+
+const isRecipeSchema = (schema: JsonSchema): boolean =>
+  schema?.type === 'object' && !!schema.properties?.name && !!schema.properties.kcalPerServing;
+
+const generateJson = (prompt: string, schema: JsonSchema): unknown => {
+  const context: MockContext = {
+    random: createRandom(hashText(prompt)),
+    subject: prompt.match(/"([^"]+)"/)?.[1] ?? null,
+    pantry:
+      prompt
+        .match(/with these ingredients: ([^.]+)\./)?.[1]
+        ?.split(',')
+        .map((item) => item.trim()) ?? [],
+  };
+
+  if (isRecipeSchema(schema)) {
+    return buildRecipe(schema, context, toTitleCase(context.subject ?? 'House Special'));
+  }
+
+  const items = schema.items;
+  if (schema.type === 'array' && items && isRecipeSchema(items)) {
+    if (items.properties?.day && items.properties.slot) {
+      return buildMealPlan(items, context);
+    }
+    const styleOffset = Math.floor(context.random() * NAME_STYLES.length);
+    return Array.from({ length: GENERATED_RECIPE_COUNT }, (_, index) => {
+      const main = toTitleCase(
+        context.pantry[index % Math.max(1, context.pantry.length)] ??
+          context.subject ??
+          pick(context.random, INGREDIENTS).item
+      );
+      const dishType = pick(context.random, DISH_TYPES);
+      // A query such as "chicken curry" already names the kind of dish
+      const hasDishType = DISH_TYPES.some((type) => main.endsWith(type));
+      // Styles are not repeated, so every name (and the id made from it) is unique
+      const style = NAME_STYLES[(styleOffset + index) % NAME_STYLES.length];
+      const name = [style, main, hasDishType ? '' : dishType].join(' ').trim();
+      return buildRecipe(items, context, name);
+    });
+  }
+
+  return sampleSchema(schema, context);
+};
+
+/**
+ * Replays a reply in small pieces, paced like a model writing it
+ */
+async function* streamJson(prompt: string, schema: JsonSchema): AsyncIterable<string> {
+  const text = JSON.stringify(generateJson(prompt, schema));
+  for (let start = 0; start < text.length; start += STREAM_CHUNK_LENGTH) {
+    await new Promise((resolve) => setTimeout(resolve, STREAM_CHUNK_DELAY_MS));
+    yield text.slice(start, start + STREAM_CHUNK_LENGTH);
+  }
+}
+
+export const createMockProvider = (model: string): LlmProvider => ({
+  name: 'mock',
+  model,
+  generateText: async (prompt) =>
+    /\bto English\b/.test(prompt) ? translateToEnglish(getPayload(prompt)) : getPayload(prompt),
+  generateJson: async <T>(prompt: string, schema?: JsonSchema) =>
+    schema
+      ? (generateJson(prompt, schema) as T)
+      : // Translations of recipe data come back unchanged
+        parseJsonResponse<T>('mock', getPayload(prompt)),
+  streamJson,
+});
@@ -0,0 +1,171 @@
+/**
+ * Any server speaking the OpenAI chat completions API: OpenAI itself, or local and hosted
+ * alternatives such as Ollama, LM Studio, vLLM or OpenRouter
+ */
+
+import { JsonSchema, LlmError, LlmProvider, parseJsonResponse } from './provider';
+
+interface OpenAiProviderOptions {
+  // Optional for local servers that do not check it
+  apiKey: string;
+  baseUrl: string;
+  model: string;
+}
+
+interface ChatCompletion {
+  choices?: { message?: { content?: string | null } }[];
+}
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string | null } }[];
+}
+
+// Structured outputs need an object at the root, so other schemas are wrapped in one
+const WRAPPER_PROPERTY = 'result';
+
+const toOpenAiSchema = (schema: JsonSchema): Record<string, unknown> => ({
+  type: schema.nullable ? [schema.type, 'null'] : schema.type,
+  ...(schema.properties && {
+    properties: Object.fromEntries(
+      Object.entries(schema.properties).map(([name, property]) => [name, toOpenAiSchema(property)])
+    ),
+  }),
+  ...(schema.required && { required: schema.required }),
+  ...(schema.items && { items: toOpenAiSchema(schema.items) }),
+  ...(schema.enum && { enum: schema.enum }),
+});
+
+const toResponseFormat = (schema: JsonSchema): Record<string, unknown> => ({
+  type: 'json_schema',
+  json_schema: { name: 'response', schema: toOpenAiSchema(schema) },
+});
+
+/**
+ * Parses one streamed event; anything that is not JSON, such as an error page from a proxy,
+ * is reported as a provider error
+ */
+const parseChunk = (data: string): ChatCompletionChunk => {
+  try {
+    return JSON.parse(data) as ChatCompletionChunk;
+  } catch (error) {
+    throw new LlmError(
+      'openai',
+      `Unreadable response: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+};
+
+export const createOpenAiProvider = ({
+  apiKey,
+  baseUrl,
+  model,
+}: OpenAiProviderOptions): LlmProvider => {
+  const endpoint = `${baseUrl.replace(/\/+$/, '')}/chat/completions`;
+
+  const send = async (
+    prompt: string,
+    responseFormat?: Record<string, unknown>,
+    stream = false
+  ): Promise<Response> => {
+    let response: Response;
+    try {
+      response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+        },
+        body: JSON.stringify({
+          model,
+          messages: [{ role: 'user', content: prompt }],
+          ...(responseFormat && { response_format: responseFormat }),
+          ...(stream && { stream: true }),
+        }),
+      });
+    } catch (error) {
+      throw new LlmError('openai', error instanceof Error ? error.message : String(error));
+    }
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new LlmError('openai', detail || response.statusText, response.status);
+    }
+    return response;
+  };
+
+  const complete = async (
+    prompt: string,
+    responseFormat?: Record<string, unknown>
+  ): Promise<string> => {
+    const response = await send(prompt, responseFormat);
+    let completion: ChatCompletion;
+    try {
+      completion = (await response.json()) as ChatCompletion;
+    } catch (error) {
+      // A proxy or misconfigured base URL can answer 200 with an HTML page
+      throw new LlmError(
+        'openai',
+        `Unreadable response: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    return completion.choices?.[0]?.message?.content?.trim() ?? '';
+  };
+
+  const generateJson = async <T>(prompt: string, schema?: JsonSchema): Promise<T> => {
+    if (!schema) {
+      return parseJsonResponse<T>('openai', await complete(prompt, { type: 'json_object' }));
+    }
+
+    const isWrapped = schema.type !== 'object';
+    const rootSchema: JsonSchema = isWrapped
+      ? {
+          type: 'object',
+          properties: { [WRAPPER_PROPERTY]: schema },
+          required: [WRAPPER_PROPERTY],
+        }
+      : schema;
+    const text = await complete(prompt, toResponseFormat(rootSchema));
+    const parsed = parseJsonResponse<T | { [WRAPPER_PROPERTY]: T }>('openai', text);
+    return isWrapped ? (parsed as { [WRAPPER_PROPERTY]: T })[WRAPPER_PROPERTY] : (parsed as T);
+  };
+
+  /**
+   * Reads the server-sent events of a streamed completion, yielding each piece of content
+   */
+  async function* streamJson(prompt: string, schema: JsonSchema): AsyncIterable<string> {
+    // A wrapped reply cannot be unwrapped until it is complete, so it arrives in one piece
+    if (schema.type !== 'object') {
+      yield JSON.stringify(await generateJson(prompt, schema));
+      return;
+    }
+
+    const body = (await send(prompt, toResponseFormat(schema), true)).body;
+    if (!body) throw new LlmError('openai', 'Empty response');
+
+    const reader = body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) return;
+      buffer += value;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        // Lines starting with a colon are comments, e.g. keep-alives
+        if (line.startsWith(':')) continue;
+        const data = line.match(/^data:\s*(.*)$/)?.[1];
+        if (!data || data === '[DONE]') continue;
+        const content = parseChunk(data).choices?.[0]?.delta?.content;
+        if (content) yield content;
+      }
+    }
+  }
+
+  return {
+    name: 'openai',
+    model,
+    generateText: (prompt) => complete(prompt),
+    generateJson,
+    streamJson,
+  };
+};
@@ -0,0 +1,77 @@
+/**
+ * Provider-neutral interface for the language models behind recipe generation and translation
+ */
+
+export type LlmProviderName = 'gemini' | 'openai' | 'mock';
+
+/**
+ * The subset of JSON Schema the app describes responses with
+ * Each provider converts it to its own dialect
+ */
+export interface JsonSchema {
+  type: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+  properties?: { [name: string]: JsonSchema };
+  required?: string[];
+  items?: JsonSchema;
+  enum?: readonly string[];
+  nullable?: boolean;
+}
+
+export interface LlmProvider {
+  name: LlmProviderName;
+  model: string;
+  /**
+   * Returns the model's plain-text reply, trimmed
+   */
+  generateText(prompt: string): Promise<string>;
+  /**
+   * Returns the model's reply parsed as JSON, constrained to `schema` when one is given
+   * Throws an LlmError when the reply is empty or not valid JSON
+   */
+  generateJson<T>(prompt: string, schema?: JsonSchema): Promise<T>;
+  /**
+   * Yields a JSON reply constrained to `schema` in pieces as the model writes it;
+   * the pieces join up to the same text generateJson would parse
+   */
+  streamJson(prompt: string, schema: JsonSchema): AsyncIterable<string>;
+}
+
+/**
+ * Any failure talking to a provider, with the HTTP status when there was one
+ */
+export class LlmError extends Error {
+  readonly provider: LlmProviderName;
+  readonly status?: number;
+
+  constructor(provider: LlmProviderName, message: string, status?: number) {
+    super(status ? `[${provider}] ${status}: ${message}` : `[${provider}] ${message}`);
+    this.name = 'LlmError';
+    this.provider = provider;
+    this.status = status;
+  }
+}
+
+/**
+ * Whether an error means the provider's rate limit or quota, or the app's own budget, has run out
+ */
+export const isQuotaError = (error: unknown): boolean =>
+  (error instanceof Error && 'status' in error && error.status === 429) ||
+  (error instanceof Error && /\b429\b|RESOURCE_EXHAUSTED/.test(error.message));
+
+/**
+ * Parses a JSON reply, tolerating the markdown code fences some models wrap it in
+ */
+export const parseJsonResponse = <T>(provider: LlmProviderName, text: string): T => {
+  const json = text
+    .replace(/```json\n?/g, '')
+    .replace(/```\n?/g, '')
+    .trim();
+  if (!json) {
+    throw new LlmError(provider, 'Empty response');
+  }
+  try {
+    return JSON.parse(json) as T;
+  } catch {
+    throw new LlmError(provider, 'Response is not valid JSON');
+  }
+};
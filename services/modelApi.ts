@@ -0,0 +1,40 @@
+/**
+ * The model operations the services call: the /api endpoints, paced by a shared request
+ * scheduler, or the mock provider running in the browser when offline mode is on
+ */
+
+import { config } from '../config/env';
+import { readTextStream, requestJson, sendRequest } from './apiClient';
+import { ModelOperations, createModelOperations } from './modelOperations';
+import { createRequestScheduler } from './requestScheduler';
+import { createMockProvider } from './llm/mockProvider';
+
+const scheduler = createRequestScheduler({
+  maxConcurrent: config.modelMaxConcurrent,
+  requestsPerMinute: config.modelRequestsPerMinute,
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30_000,
+});
+
+const post = <T>(path: string, body: unknown): Promise<T> =>
+  scheduler.schedule(() => requestJson<T>(path, body));
+
+const remoteModelOperations: ModelOperations = {
+  searchRecipes: (query, constraints) => post('/search', { query, constraints }),
+  generateRecipe: (name, constraints) => post('/recipe', { name, constraints }),
+  // Only the request itself is paced; the reply streams in after its slot is freed
+  async *streamRecipe(name, constraints) {
+    const response = await scheduler.schedule(() =>
+      sendRequest('/recipe', { name, constraints, stream: true })
+    );
+    yield* readTextStream(response);
+  },
+  searchByIngredients: (pantry, constraints) => post('/search', { pantry, constraints }),
+  generateMealPlan: (request, constraints) => post('/meal-plan', { request, constraints }),
+  translate: async (request) => (await post<{ result: unknown }>('/translate', request)).result,
+};
+
+export const modelApi: ModelOperations = config.offlineMode
+  ? createModelOperations(createMockProvider('mock'))
+  : remoteModelOperations;
@@ -0,0 +1,300 @@
+/**
+ * Every request the app makes of the language model, as prompt plus response schema
+ * Runs behind the /api endpoints, where the provider keys live, and in the browser in offline mode
+ */
+
+import { MealSlot, RecipeDetail, RecipeSummary, SearchFilters } from '../types';
+import { LlmProvider, JsonSchema } from './llm/provider';
+import { NUTRIENTS } from '../utils/nutrition';
+import { ALLERGENS } from '../utils/allergens';
+import { MEAL_SLOTS, WEEK_DAYS } from '../utils/mealPlan';
+import { DIETARY_TAGS, DIFFICULTIES, describeFilters } from '../utils/searchFilters';
+
+export type GeneratedPantryRecipe = RecipeSummary & { ingredients?: string[] };
+
+export type GeneratedPlannedMeal = RecipeSummary & { day?: number; slot?: MealSlot };
+
+export type TranslationRequest =
+  | { kind: 'text'; text: string; targetLang: string }
+  | { kind: 'query'; text: string }
+  | { kind: 'recipe'; content: unknown; targetLang: string };
+
+export interface ModelOperations {
+  searchRecipes(englishQuery: string, constraints: SearchFilters): Promise<RecipeSummary[]>;
+  generateRecipe(recipeName: string, constraints: SearchFilters): Promise<RecipeDetail | null>;
+  // The same recipe as generateRecipe, as JSON text yielded piece by piece while it is written
+  streamRecipe(recipeName: string, constraints: SearchFilters): AsyncIterable<string>;
+  searchByIngredients(
+    englishPantry: string[],
+    constraints: SearchFilters
+  ): Promise<GeneratedPantryRecipe[]>;
+  generateMealPlan(
+    englishRequest: string,
+    constraints: SearchFilters
+  ): Promise<GeneratedPlannedMeal[]>;
+  // Text and query translations resolve to a string, recipe translations to the translated JSON
+  translate(request: TranslationRequest): Promise<unknown>;
+}
+
+// Language names mapping
+const LANGUAGE_NAMES: { [key: string]: string } = {
+  en: 'English',
+  hi: 'Hindi',
+  ja: 'Japanese',
+  es: 'Spanish',
+  th: 'Thai',
+};
+
+const DIFFICULTY_SCHEMA: JsonSchema = {
+  type: 'string',
+  enum: DIFFICULTIES,
+};
+
+const DIETARY_TAGS_SCHEMA: JsonSchema = {
+  type: 'array',
+  items: { type: 'string', enum: DIETARY_TAGS },
+};
+
+const ALLERGENS_SCHEMA: JsonSchema = {
+  type: 'array',
+  items: { type: 'string', enum: ALLERGENS },
+};
+
+const SEARCH_SCHEMA: JsonSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      name: { type: 'string' },
+      category: { type: 'string' },
+      shortDescription: { type: 'string' },
+      prepMinutes: { type: 'integer' },
+      cookMinutes: { type: 'integer' },
+      totalMinutes: { type: 'integer' },
+      kcalPerServing: { type: 'integer' },
+      difficulty: DIFFICULTY_SCHEMA,
+      dietaryTags: DIETARY_TAGS_SCHEMA,
+      allergens: ALLERGENS_SCHEMA,
+    },
+    required: [
+      'name',
+      'category',
+      'shortDescription',
+      'prepMinutes',
+      'cookMinutes',
+      'totalMinutes',
+      'kcalPerServing',
+      'difficulty',
+      'dietaryTags',
+      'allergens',
+    ],
+  },
+};
+
+const RECIPE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    category: { type: 'string' },
+    shortDescription: { type: 'string' },
+    prepMinutes: { type: 'integer' },
+    cookMinutes: { type: 'integer' },
+    totalMinutes: { type: 'integer' },
+    kcalPerServing: { type: 'integer' },
+    difficulty: DIFFICULTY_SCHEMA,
+    dietaryTags: DIETARY_TAGS_SCHEMA,
+    allergens: ALLERGENS_SCHEMA,
+    servings: { type: 'integer' },
+    nutrition: {
+      type: 'object',
+      properties: Object.fromEntries(
+        NUTRIENTS.map((nutrient) => [nutrient.key, { type: 'number' }])
+      ),
+      required: NUTRIENTS.map((nutrient) => nutrient.key),
+    },
+    ingredients: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          quantity: { type: 'number', nullable: true },
+          unit: { type: 'string', nullable: true },
+          item: { type: 'string' },
+          note: { type: 'string' },
+          optional: { type: 'boolean' },
+        },
+        required: ['quantity', 'unit', 'item'],
+      },
+    },
+    instructions: {
+      type: 'array',
+      items: { type: 'string' },
+    },
+    tips: {
+      type: 'array',
+      items: { type: 'string' },
+    },
+  },
+  required: [
+    'name',
+    'category',
+    'shortDescription',
+    'prepMinutes',
+    'cookMinutes',
+    'totalMinutes',
+    'kcalPerServing',
+    'difficulty',
+    'dietaryTags',
+    'allergens',
+    'servings',
+    'nutrition',
+    'ingredients',
+    'instructions',
+    'tips',
+  ],
+};
+
+const PANTRY_SCHEMA: JsonSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      name: { type: 'string' },
+      category: { type: 'string' },
+      shortDescription: { type: 'string' },
+      prepMinutes: { type: 'integer' },
+      cookMinutes: { type: 'integer' },
+      totalMinutes: { type: 'integer' },
+      kcalPerServing: { type: 'integer' },
+      difficulty: DIFFICULTY_SCHEMA,
+      dietaryTags: DIETARY_TAGS_SCHEMA,
+      allergens: ALLERGENS_SCHEMA,
+      ingredients: { type: 'array', items: { type: 'string' } },
+    },
+    required: [
+      'name',
+      'category',
+      'shortDescription',
+      'prepMinutes',
+      'cookMinutes',
+      'totalMinutes',
+      'kcalPerServing',
+      'difficulty',
+      'dietaryTags',
+      'allergens',
+      'ingredients',
+    ],
+  },
+};
+
+const MEAL_PLAN_SCHEMA: JsonSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      day: { type: 'integer' },
+      slot: { type: 'string', enum: MEAL_SLOTS },
+      name: { type: 'string' },
+      category: { type: 'string' },
+      shortDescription: { type: 'string' },
+      prepMinutes: { type: 'integer' },
+      cookMinutes: { type: 'integer' },
+      totalMinutes: { type: 'integer' },
+      kcalPerServing: { type: 'integer' },
+      difficulty: DIFFICULTY_SCHEMA,
+      dietaryTags: DIETARY_TAGS_SCHEMA,
+      allergens: ALLERGENS_SCHEMA,
+    },
+    required: [
+      'day',
+      'slot',
+      'name',
+      'category',
+      'shortDescription',
+      'prepMinutes',
+      'cookMinutes',
+      'totalMinutes',
+      'kcalPerServing',
+      'difficulty',
+      'dietaryTags',
+      'allergens',
+    ],
+  },
+};
+
+const buildSearchPrompt = (englishQuery: string, constraints: SearchFilters): string =>
+  `Generate 6 diverse and delicious recipes based on this search query: "${englishQuery}". Make them appetizing, realistic, and varied. Include different cooking styles and difficulty levels. Provide accurate prep, cook and total times as whole minutes, calories per serving as a whole number of kcal, a difficulty of "easy", "medium" or "hard" for a home cook, every dietary tag (${DIETARY_TAGS.join(', ')}) that applies, and every allergen (${ALLERGENS.join(', ')}) the recipe contains. ${describeFilters(constraints)}`;
+
+const buildRecipePrompt = (recipeName: string, constraints: SearchFilters): string => {
+  const dietaryRules = describeFilters(constraints, 'The recipe');
+  const dietaryPrompt = dietaryRules
+    ? `${dietaryRules} Where the dish normally breaks these rules, adapt it with suitable substitutions.`
+    : '';
+
+  return `Generate a complete, detailed recipe for "${recipeName}".
+    Include:
+    - A complete list of ingredients, each split into a numeric quantity (decimals, not fractions; null for "to taste"), an abbreviated unit (g, kg, ml, L, tsp, tbsp, cup, oz, lb, clove, can, or null for countable items), the item itself, an optional preparation note (e.g. "finely diced") and whether it is optional
+    - Step-by-step cooking instructions (8-12 steps)
+    - 3-4 helpful cooking tips
+    - Accurate prep, cook and total times as whole minutes, and calories per serving as a whole number of kcal
+    - The number of servings the ingredient quantities yield
+    - Nutrition per serving: protein, carbohydrates, fat, fiber and sugar in grams, and sodium in milligrams
+    - A difficulty of "easy", "medium" or "hard" for a home cook
+    - Every dietary tag (${DIETARY_TAGS.join(', ')}) that applies
+    - Every allergen (${ALLERGENS.join(', ')}) the recipe contains
+    - Appropriate category (Italian, Japanese, Mexican, Indian, Thai, Vegan, Dessert, Mediterranean, or General)
+
+    Make it authentic, detailed, and practical for home cooking. ${dietaryPrompt}`;
+};
+
+const buildPantryPrompt = (englishPantry: string[], constraints: SearchFilters): string =>
+  `Generate 6 realistic recipes that can be cooked mainly with these ingredients: ${englishPantry.join(', ')}. Assume salt, pepper, cooking oil and water are always available. Use as few other ingredients as possible, and favour recipes that use several of the listed ingredients. List every ingredient each recipe needs by name only, without quantities. Provide accurate prep, cook and total times as whole minutes, calories per serving as a whole number of kcal, a difficulty of "easy", "medium" or "hard" for a home cook, every dietary tag (${DIETARY_TAGS.join(', ')}) that applies, and every allergen (${ALLERGENS.join(', ')}) the recipe contains. ${describeFilters(constraints)}`;
+
+const buildMealPlanPrompt = (englishRequest: string, constraints: SearchFilters): string =>
+  `Create a meal plan for this request: "${englishRequest}". Plan at most ${WEEK_DAYS.length} days, numbered from 1, and unless the request says otherwise fill the ${MEAL_SLOTS.join(', ')} slots of each day with a different recipe. When the request sets a daily calorie target, make each day's calories per serving add up to within 10% of it. Vary cuisines and ingredients across the plan. For each recipe provide accurate prep, cook and total times as whole minutes, calories per serving as a whole number of kcal, a difficulty of "easy", "medium" or "hard" for a home cook, every dietary tag (${DIETARY_TAGS.join(', ')}) that applies, and every allergen (${ALLERGENS.join(', ')}) the recipe contains. ${describeFilters(constraints)}`;
+
+const buildTranslationPrompt = (request: TranslationRequest): string => {
+  switch (request.kind) {
+    case 'text':
+      return `Translate the following text to ${LANGUAGE_NAMES[request.targetLang] || request.targetLang}. Only return the translated text, nothing else:\n\n${request.text}`;
+    case 'query':
+      return `Translate this food/recipe search query to English. Only return the English translation, nothing else:\n\n${request.text}`;
+    case 'recipe':
+      return `Translate the following recipe data to ${LANGUAGE_NAMES[request.targetLang] || request.targetLang}. Keep the JSON structure exactly the same, only translate the text values (name, description, ingredient items and notes, instructions, tips, etc.). Leave ids, numbers and ingredient units unchanged. Return valid JSON only without any markdown formatting:\n\n${JSON.stringify(request.content, null, 2)}`;
+  }
+};
+
+/**
+ * Binds the model operations to a provider
+ * Results come back exactly as the model produced them; callers normalize them
+ */
+export const createModelOperations = (llm: LlmProvider): ModelOperations => ({
+  searchRecipes: (englishQuery, constraints) =>
+    llm.generateJson<RecipeSummary[]>(buildSearchPrompt(englishQuery, constraints), SEARCH_SCHEMA),
+
+  generateRecipe: (recipeName, constraints) =>
+    llm.generateJson<RecipeDetail | null>(
+      buildRecipePrompt(recipeName, constraints),
+      RECIPE_SCHEMA
+    ),
+
+  streamRecipe: (recipeName, constraints) =>
+    llm.streamJson(buildRecipePrompt(recipeName, constraints), RECIPE_SCHEMA),
+
+  searchByIngredients: (englishPantry, constraints) =>
+    llm.generateJson<GeneratedPantryRecipe[]>(
+      buildPantryPrompt(englishPantry, constraints),
+      PANTRY_SCHEMA
+    ),
+
+  generateMealPlan: (englishRequest, constraints) =>
+    llm.generateJson<GeneratedPlannedMeal[]>(
+      buildMealPlanPrompt(englishRequest, constraints),
+      MEAL_PLAN_SCHEMA
+    ),
+
+  translate: (request) => {
+    const prompt = buildTranslationPrompt(request);
+    return request.kind === 'recipe' ? llm.generateJson(prompt) : llm.generateText(prompt);
+  },
+});
@@ -0,0 +1,133 @@
+import { RecipeDetail } from '../types';
+import { config } from '../config/env';
+import { RECIPE_CACHE_STORE, withStore } from './database';
+
+/**
+ * Persistent cache of fetched and generated recipe details, so reloads don't re-spend Gemini quota
+ * Entries are keyed by recipe and language, expire after a configurable TTL and are evicted least
+ * recently used first once their serialized size passes the configured budget
+ */
+
+// Bump whenever the shape of RecipeDetail changes; entries stamped with another version are discarded
+const RECIPE_CACHE_VERSION = 2;
+
+const CACHE_TTL_MS = config.recipeCacheTtlMinutes * 60 * 1000;
+const MAX_CACHE_BYTES = config.recipeCacheMaxKb * 1024;
+
+interface CachedRecipe {
+  key: string;
+  recipeKey: string;
+  language: string;
+  recipe: RecipeDetail;
+  version: number;
+  createdAt: number;
+  lastAccessed: number;
+  // Bytes of the serialized recipe, counted against the cache budget
+  size: number;
+}
+
+const toEntryKey = (recipeKey: string, language: string): string => `${recipeKey}@${language}`;
+
+const isUsable = (entry: CachedRecipe): boolean =>
+  entry.version === RECIPE_CACHE_VERSION && Date.now() - entry.createdAt < CACHE_TTL_MS;
+
+const deleteEntry = (key: string) =>
+  withStore(RECIPE_CACHE_STORE, 'readwrite', (store) => store.delete(key));
+
+const measure = (recipe: RecipeDetail): number =>
+  new TextEncoder().encode(JSON.stringify(recipe)).length;
+
+/**
+ * Drops the least recently used entries until the cache is back within its byte budget
+ */
+const evictLeastRecentlyUsed = async (): Promise<void> => {
+  // The lastAccessed index iterates oldest first
+  const entries = await withStore<CachedRecipe[]>(RECIPE_CACHE_STORE, 'readonly', (store) =>
+    store.index('lastAccessed').getAll()
+  );
+  let total = entries.reduce((sum, entry) => sum + entry.size, 0);
+
+  const evicted: string[] = [];
+  for (const entry of entries) {
+    if (total <= MAX_CACHE_BYTES) break;
+    total -= entry.size;
+    evicted.push(entry.key);
+  }
+  await Promise.all(evicted.map(deleteEntry));
+};
+
+/**
+ * Returns the cached recipe for a language, or null if it is missing, expired or from an older
+ * cache version. Cache failures are treated as misses
+ * @param recipeKey - Normalized recipe name, plus anything else the recipe varies by
+ */
+export const getCachedRecipe = async (
+  recipeKey: string,
+  language: string
+): Promise<RecipeDetail | null> => {
+  const key = toEntryKey(recipeKey, language);
+  try {
+    const entry = await withStore<CachedRecipe | undefined>(
+      RECIPE_CACHE_STORE,
+      'readonly',
+      (store) => store.get(key)
+    );
+    if (!entry) return null;
+
+    if (!isUsable(entry)) {
+      await deleteEntry(key);
+      return null;
+    }
+
+    await withStore(RECIPE_CACHE_STORE, 'readwrite', (store) =>
+      store.put({ ...entry, lastAccessed: Date.now() })
+    );
+    return entry.recipe;
+  } catch (error) {
+    console.error('[Cache] Failed to read recipe cache:', error);
+    return null;
+  }
+};
+
+export const setCachedRecipe = async (
+  recipeKey: string,
+  language: string,
+  recipe: RecipeDetail
+): Promise<void> => {
+  const now = Date.now();
+  const entry: CachedRecipe = {
+    key: toEntryKey(recipeKey, language),
+    recipeKey,
+    language,
+    recipe,
+    version: RECIPE_CACHE_VERSION,
+    createdAt: now,
+    lastAccessed: now,
+    size: measure(recipe),
+  };
+
+  try {
+    await withStore(RECIPE_CACHE_STORE, 'readwrite', (store) => store.put(entry));
+    await evictLeastRecentlyUsed();
+  } catch (error) {
+    console.error('[Cache] Failed to write recipe cache:', error);
+  }
+};
+
+export const clearRecipeCache = async (): Promise<void> => {
+  await withStore(RECIPE_CACHE_STORE, 'readwrite', (store) => store.clear());
+};
+
+export const getRecipeCacheStats = async () => {
+  const entries = await withStore<CachedRecipe[]>(RECIPE_CACHE_STORE, 'readonly', (store) =>
+    store.getAll()
+  );
+  return {
+    size: entries.length,
+    bytes: entries.reduce((sum, entry) => sum + entry.size, 0),
+    maxBytes: MAX_CACHE_BYTES,
+    expiryMinutes: config.recipeCacheTtlMinutes,
+    version: RECIPE_CACHE_VERSION,
+    entries: entries.map((entry) => entry.key),
+  };
+};
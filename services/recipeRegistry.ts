@@ -0,0 +1,75 @@
+import { RecipeSummary } from '../types';
+import { createPersistedStore } from '../utils/persistedStore';
+import { toRecipeSlug } from '../utils/recipeSlug';
+
+/**
+ * Remembers recipes that are not in the static catalog, and every name a recipe has been shown
+ * under, so a /recipe/:slug link keeps resolving to the same canonical recipe after reloads
+ */
+
+const STORAGE_KEY = 'recipeRegistry';
+// Oldest entries are forgotten first; they still resolve, just by a name guessed from the slug
+const MAX_ENTRIES = 500;
+
+interface RecipeRegistry {
+  // Canonical id -> English name, for generated recipes
+  names: Record<string, string>;
+  // Slug of a name a recipe was shown under (e.g. a translation) -> canonical id
+  aliases: Record<string, string>;
+}
+
+const store = createPersistedStore<RecipeRegistry>(
+  STORAGE_KEY,
+  (stored) => {
+    const registry = stored as Partial<RecipeRegistry> | null;
+    return { names: registry?.names ?? {}, aliases: registry?.aliases ?? {} };
+  },
+  { names: {}, aliases: {} }
+);
+
+/**
+ * Keeps the newest entries; objects preserve insertion order, and updated keys are re-inserted
+ */
+const trim = (entries: Record<string, string>): Record<string, string> =>
+  Object.fromEntries(Object.entries(entries).slice(-MAX_ENTRIES));
+
+const persist = () => {
+  const registry = store.get();
+  store.set({ names: trim(registry.names), aliases: trim(registry.aliases) });
+};
+
+const setEntry = (entries: Record<string, string>, key: string, value: string): boolean => {
+  if (!key || entries[key] === value) return false;
+  delete entries[key];
+  entries[key] = value;
+  return true;
+};
+
+/**
+ * Records the English names of generated recipes, keyed by their canonical id
+ */
+export const registerRecipeNames = (recipes: RecipeSummary[]): void => {
+  let changed = false;
+  for (const recipe of recipes) {
+    changed = setEntry(store.get().names, recipe.id, recipe.name) || changed;
+  }
+  if (changed) persist();
+};
+
+/**
+ * Records the names recipes are displayed under, so links built from them resolve to the recipe
+ */
+export const registerRecipeAliases = (recipes: RecipeSummary[]): void => {
+  let changed = false;
+  for (const recipe of recipes) {
+    const alias = toRecipeSlug(recipe.name);
+    if (alias !== recipe.id) {
+      changed = setEntry(store.get().aliases, alias, recipe.id) || changed;
+    }
+  }
+  if (changed) persist();
+};
+
+export const lookupRecipeAlias = (slug: string): string | null => store.get().aliases[slug] ?? null;
+
+export const lookupRecipeName = (id: string): string | null => store.get().names[id] ?? null;
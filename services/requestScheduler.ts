@@ -0,0 +1,112 @@
+/**
+ * Paces model requests so one browser does not flood the backend: a concurrency limit,
+ * a token bucket, and retries with exponential backoff and jitter on 429/5xx replies
+ * The daily budget and hard rate limits are enforced by the server (api/_lib/modelLimits.ts)
+ */
+
+export interface RequestSchedulerOptions {
+  // Requests allowed in flight at once; the rest queue in order
+  maxConcurrent: number;
+  // Steady rate the token bucket refills at; it holds up to half a minute's worth for bursts
+  requestsPerMinute: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  // Longest wait before a retry; a reply asking to wait longer is given up on straight away
+  maxDelayMs: number;
+}
+
+export interface RequestScheduler {
+  /**
+   * Runs a request once a slot and a token are free, retrying it when it fails with
+   * a rate-limit or server error
+   */
+  schedule<T>(request: () => Promise<T>): Promise<T>;
+}
+
+const getStatus = (error: unknown): number | undefined =>
+  error instanceof Error && 'status' in error && typeof error.status === 'number'
+    ? error.status
+    : undefined;
+
+/**
+ * Whether a failed request is worth sending again: rate limits and server errors usually pass
+ */
+const isRetryable = (error: unknown): boolean => {
+  const status = getStatus(error);
+  return status === 429 || (status !== undefined && status >= 500);
+};
+
+const getRetryAfterMs = (error: unknown): number | undefined =>
+  error instanceof Error && 'retryAfterMs' in error && typeof error.retryAfterMs === 'number'
+    ? error.retryAfterMs
+    : undefined;
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+export const createRequestScheduler = (options: RequestSchedulerOptions): RequestScheduler => {
+  const bucketSize = Math.max(1, Math.ceil(options.requestsPerMinute / 2));
+  let tokens = bucketSize;
+  let lastRefill = Date.now();
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  const acquireSlot = async () => {
+    if (active < options.maxConcurrent) {
+      active++;
+      return;
+    }
+    // The slot is handed over directly by the request that releases it
+    await new Promise<void>((resolve) => waiting.push(resolve));
+  };
+
+  const releaseSlot = () => {
+    const next = waiting.shift();
+    if (next) {
+      next();
+    } else {
+      active--;
+    }
+  };
+
+  const takeToken = async () => {
+    for (;;) {
+      const now = Date.now();
+      tokens = Math.min(
+        bucketSize,
+        tokens + ((now - lastRefill) / 60_000) * options.requestsPerMinute
+      );
+      lastRefill = now;
+      if (tokens >= 1) {
+        tokens -= 1;
+        return;
+      }
+      await sleep(((1 - tokens) / options.requestsPerMinute) * 60_000);
+    }
+  };
+
+  // Full jitter, so clients that were throttled together do not retry together
+  const getBackoffDelay = (attempt: number) =>
+    Math.random() * Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+
+  const schedule = async <T>(request: () => Promise<T>): Promise<T> => {
+    await acquireSlot();
+    try {
+      for (let attempt = 0; ; attempt++) {
+        await takeToken();
+        try {
+          return await request();
+        } catch (error) {
+          if (attempt >= options.maxRetries || !isRetryable(error)) throw error;
+          // The server knows when its limit resets, e.g. not before tomorrow for the daily budget
+          const retryAfterMs = getRetryAfterMs(error);
+          if (retryAfterMs !== undefined && retryAfterMs > options.maxDelayMs) throw error;
+          await sleep(retryAfterMs ?? getBackoffDelay(attempt));
+        }
+      }
+    } finally {
+      releaseSlot();
+    }
+  };
+
+  return { schedule };
+};
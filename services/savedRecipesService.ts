@@ -0,0 +1,38 @@
+import { RecipeDetail, SavedRecipe } from '../types';
+import { SAVED_RECIPES_STORE, withStore } from './database';
+
+export const getSavedRecipes = async (): Promise<SavedRecipe[]> => {
+  const entries = await withStore<SavedRecipe[]>(SAVED_RECIPES_STORE, 'readonly', (store) =>
+    store.getAll()
+  );
+  return entries.sort((a, b) => b.savedAt - a.savedAt);
+};
+
+export const getSavedRecipe = async (recipeId: string): Promise<SavedRecipe | null> => {
+  const entry = await withStore<SavedRecipe | undefined>(SAVED_RECIPES_STORE, 'readonly', (store) =>
+    store.get(recipeId)
+  );
+  return entry ?? null;
+};
+
+/**
+ * Stores the full recipe so AI-generated recipes can be reopened without regenerating them
+ */
+export const saveRecipe = async (
+  recipeId: string,
+  recipe: RecipeDetail,
+  language: string
+): Promise<SavedRecipe> => {
+  const entry: SavedRecipe = {
+    key: recipeId,
+    recipe,
+    language,
+    savedAt: Date.now(),
+  };
+  await withStore(SAVED_RECIPES_STORE, 'readwrite', (store) => store.put(entry));
+  return entry;
+};
+
+export const removeSavedRecipe = async (recipeId: string): Promise<void> => {
+  await withStore(SAVED_RECIPES_STORE, 'readwrite', (store) => store.delete(recipeId));
+};
@@ -1,17 +1,5 @@
-import { GoogleGenAI } from '@google/genai';
-import { config } from '../config/env';
-
-const ai = new GoogleGenAI({ apiKey: config.geminiApiKey });
-const MODEL_NAME = 'gemini-2.5-flash';
-
-// Language names mapping
-const LANGUAGE_NAMES: { [key: string]: string } = {
-  en: 'English',
-  hi: 'Hindi',
-  ja: 'Japanese',
-  es: 'Spanish',
-  th: 'Thai',
-};
+import { modelApi } from './modelApi';
+import { isQuotaError } from './llm/provider';
 
 // Translation cache to reduce API calls
 const translationCache = new Map<string, any>();
@@ -42,21 +30,9 @@ export async function translateText(
     return translationCache.get(cacheKey);
   }
 
-  if (!ai) {
-    console.error('Translation API not available');
-    return text;
-  }
-
   try {
-    const targetLanguageName = LANGUAGE_NAMES[targetLang] || targetLang;
-    const prompt = `Translate the following text to ${targetLanguageName}. Only return the translated text, nothing else:\n\n${text}`;
-
-    const result = await ai.models.generateContent({
-      model: MODEL_NAME,
-      contents: prompt,
-    });
-
-    const translated = result.text?.trim() || text;
+    const translated =
+      ((await modelApi.translate({ kind: 'text', text, targetLang })) as string) || text;
 
     // Cache the result
     translationCache.set(cacheKey, translated);
@@ -72,42 +48,31 @@ export async function translateText(
  * Translates recipe content (structured data) to target language
  * Handles both single objects and arrays
  */
-export async function translateRecipeContent(content: any, targetLang: string): Promise<any> {
-  if (targetLang === 'en' || !content) {
-    return content;
-  }
-
-  if (!ai) {
+export async function translateRecipeContent(
+  content: any,
+  targetLang: string,
+  sourceLang: string = 'en'
+): Promise<any> {
+  if (targetLang === sourceLang || !content) {
     return content;
   }
 
   try {
-    const targetLanguageName = LANGUAGE_NAMES[targetLang] || targetLang;
-    
     // Handle array of recipes
     if (Array.isArray(content)) {
       const translatedArray = await Promise.all(
         content.map(async (item) => {
           // Check cache for each item
-          const itemCacheKey = getCacheKey(JSON.stringify(item).substring(0, 100), 'en', targetLang);
+          const itemCacheKey = getCacheKey(JSON.stringify(item).substring(0, 100), sourceLang, targetLang);
           if (translationCache.has(itemCacheKey)) {
             return translationCache.get(itemCacheKey);
           }
 
-          const prompt = `Translate the following recipe data to ${targetLanguageName}. Keep the JSON structure exactly the same, only translate the text values (name, description, ingredients, instructions, tips, etc.). Return valid JSON only without any markdown formatting:\n\n${JSON.stringify(item, null, 2)}`;
-
-          const result = await ai.models.generateContent({
-            model: MODEL_NAME,
-            contents: prompt,
+          const translated = await modelApi.translate({
+            kind: 'recipe',
+            content: item,
+            targetLang,
           });
-
-          let responseText = result.text || '';
-          responseText = responseText
-            .replace(/```json\n?/g, '')
-            .replace(/```\n?/g, '')
-            .trim();
-
-          const translated = JSON.parse(responseText);
           translationCache.set(itemCacheKey, translated);
           return translated;
         })
@@ -116,31 +81,18 @@ export async function translateRecipeContent(content: any, targetLang: string):
     }
 
     // Handle single recipe object
-    const cacheKey = getCacheKey(JSON.stringify(content).substring(0, 100), 'en', targetLang);
+    const cacheKey = getCacheKey(JSON.stringify(content).substring(0, 100), sourceLang, targetLang);
     if (translationCache.has(cacheKey)) {
       return translationCache.get(cacheKey);
     }
 
-    const prompt = `Translate the following recipe data to ${targetLanguageName}. Keep the JSON structure exactly the same, only translate the text values (name, description, ingredients, instructions, tips, etc.). Return valid JSON only without any markdown formatting:\n\n${JSON.stringify(content, null, 2)}`;
-
-    const result = await ai.models.generateContent({
-      model: MODEL_NAME,
-      contents: prompt,
-    });
-
-    let responseText = result.text || '';
-    responseText = responseText
-      .replace(/```json\n?/g, '')
-      .replace(/```\n?/g, '')
-      .trim();
-
-    const translated = JSON.parse(responseText);
+    const translated = await modelApi.translate({ kind: 'recipe', content, targetLang });
     translationCache.set(cacheKey, translated);
 
     return translated;
   } catch (error) {
     // Check if it's a quota error
-    if (error instanceof Error && error.message.includes('429')) {
+    if (isQuotaError(error)) {
       console.warn('⚠️ Translation quota exhausted. Displaying content in English. Quota resets daily.');
     } else {
       console.error('Recipe translation error:', error);
@@ -164,19 +116,9 @@ export async function translateSearchQuery(query: string, sourceLang: string): P
     return translationCache.get(cacheKey);
   }
 
-  if (!ai) {
-    return query;
-  }
-
   try {
-    const prompt = `Translate this food/recipe search query to English. Only return the English translation, nothing else:\n\n${query}`;
-
-    const result = await ai.models.generateContent({
-      model: MODEL_NAME,
-      contents: prompt,
-    });
-
-    const translated = result.text?.trim() || query;
+    const translated =
+      ((await modelApi.translate({ kind: 'query', text: query })) as string) || query;
 
     // Cache the result
     translationCache.set(cacheKey, translated);
@@ -184,7 +126,7 @@ export async function translateSearchQuery(query: string, sourceLang: string): P
     return translated;
   } catch (error) {
     // Check if it's a quota error
-    if (error instanceof Error && error.message.includes('429')) {
+    if (isQuotaError(error)) {
       console.warn('⚠️ Translation quota exhausted. Search will use English terms.');
     } else {
       console.error('Query translation error:', error);
@@ -4,21 +4,168 @@ export interface Category {
   description: string;
 }
 
+export type Difficulty = 'easy' | 'medium' | 'hard';
+
+export type DietaryTag = 'vegetarian' | 'vegan' | 'gluten-free' | 'dairy-free';
+
+export type Allergen =
+  | 'gluten'
+  | 'dairy'
+  | 'eggs'
+  | 'nuts'
+  | 'peanuts'
+  | 'shellfish'
+  | 'fish'
+  | 'soy'
+  | 'sesame';
+
 export interface RecipeSummary {
   id: string;
   name: string;
   category: string;
   shortDescription: string;
-  prepTime: string;
-  calories: string;
+  prepMinutes: number;
+  cookMinutes: number;
+  totalMinutes: number;
+  kcalPerServing: number;
+  difficulty: Difficulty;
+  dietaryTags: DietaryTag[];
+  allergens: Allergen[];
+}
+
+// Canonical identity of a recipe: the slug of its English name, and that name
+export interface RecipeRef {
+  id: string;
+  name: string;
+}
+
+export interface SearchResult extends RecipeSummary {
+  relevance: number;
+}
+
+export interface PantryResult extends RecipeSummary {
+  // Ingredient names, as written in the recipe
+  matchedIngredients: string[];
+  missingIngredients: string[];
+  // Share of the user's pantry items the recipe uses, from 0 to 1
+  pantryCoverage: number;
+}
+
+export type SortOption = 'relevance' | 'quickest' | 'calories' | 'alphabetical';
+
+export interface SearchFilters {
+  category?: string;
+  maxTotalMinutes?: number;
+  maxKcal?: number;
+  difficulty?: Difficulty[];
+  dietaryTags?: DietaryTag[];
+  excludedAllergens?: Allergen[];
+}
+
+export interface DietaryProfile {
+  diets: DietaryTag[];
+  excludedAllergens: Allergen[];
+}
+
+export interface Ingredient {
+  quantity: number | null;
+  quantityMax?: number;
+  unit: string | null;
+  item: string;
+  note?: string;
+  optional?: boolean;
+}
+
+// Amounts per serving
+export interface Nutrition {
+  proteinG: number;
+  carbsG: number;
+  fatG: number;
+  fiberG: number;
+  sugarG: number;
+  sodiumMg: number;
 }
 
 export interface RecipeDetail extends RecipeSummary {
-  ingredients: string[];
+  servings: number;
+  // Missing when the model gave none, and on recipes saved before it was tracked
+  nutrition?: Nutrition;
+  ingredients: Ingredient[];
   instructions: string[];
   tips: string[];
 }
 
+// A generated recipe as far as it has streamed in; each list grows as the model writes it
+export interface RecipeDraft {
+  name?: string;
+  category?: string;
+  shortDescription?: string;
+  ingredients: Ingredient[];
+  instructions: string[];
+}
+
+export type Aisle =
+  | 'produce'
+  | 'bakery'
+  | 'meat'
+  | 'seafood'
+  | 'dairy'
+  | 'pantry'
+  | 'spices'
+  | 'frozen'
+  | 'other';
+
+// One recipe's share of a shopping list line
+export interface ShoppingListSource {
+  recipeId: string;
+  recipeName: string;
+  quantity: number | null;
+  // Upper bound when the recipe gives a range ("2-3 cloves")
+  quantityMax?: number;
+  unit: string | null;
+}
+
+export interface ShoppingListItem {
+  // Normalized item name plus unit family; ingredients with the same key share a line
+  key: string;
+  item: string;
+  unit: string | null;
+  aisle: Aisle;
+  checked: boolean;
+  sources: ShoppingListSource[];
+}
+
+export type MealSlot = 'breakfast' | 'lunch' | 'dinner';
+
+export interface PlannedMeal {
+  // 0 (Monday) to 6 (Sunday)
+  day: number;
+  slot: MealSlot;
+  recipe: RecipeSummary;
+}
+
+export interface KitchenTimer {
+  id: number;
+  label: string;
+  durationMs: number;
+  // When a running timer finishes; unused while paused
+  endsAt: number;
+  // Time left when paused, null while running
+  pausedRemainingMs: number | null;
+  done: boolean;
+}
+
+export interface SavedRecipe {
+  // Canonical recipe id
+  key: string;
+  recipe: RecipeDetail;
+  // Language the recipe was displayed in when it was saved
+  language: string;
+  savedAt: number;
+}
+
+export type UnitSystem = 'metric' | 'us' | 'uk';
+
 export enum LoadingState {
   IDLE = 'IDLE',
   LOADING = 'LOADING',
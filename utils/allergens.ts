@@ -0,0 +1,125 @@
+/**
+ * Allergen detection and dietary profile checks
+ * Keyword matching is a safety net for model output and warnings, not a substitute for labels
+ */
+
+import { Allergen, DietaryProfile, DietaryTag, RecipeDetail } from '../types';
+
+export const ALLERGENS: Allergen[] = [
+  'gluten',
+  'dairy',
+  'eggs',
+  'nuts',
+  'peanuts',
+  'shellfish',
+  'fish',
+  'soy',
+  'sesame',
+];
+
+// Ingredient words that signal each allergen, with look-alikes that do not
+const ALLERGEN_PATTERNS: { [allergen in Allergen]: { match: RegExp; except?: RegExp } } = {
+  gluten: {
+    match:
+      /\b(?:flour|bread|breadcrumbs?|panko|pasta|spaghetti|linguine|fettuccine|penne|lasagna|noodles?|ramen|udon|tortillas?|wheat|barley|rye|couscous|bulgur|croutons?|dough|phyllo|pastry|naan|pita|seitan|soy sauce|ladyfingers|biscuits?|cookies?|graham|buns?|béchamel|bechamel)\b/,
+    except:
+      /\b(?:rice|corn|almond|chickpea|coconut|gluten[- ]free) (?:flour|noodles?|tortillas?|pasta)\b|\b(?:rice noodles?|tortilla chips)\b/,
+  },
+  dairy: {
+    match:
+      /\b(?:milk|butter|buttermilk|cream|cheese|parmesan|mozzarella|cheddar|feta|paneer|ricotta|mascarpone|yog(?:h)?urt|ghee|béchamel|bechamel|custard|queso)\b/,
+    except:
+      /\b(?:coconut|almond|oat|soy|peanut|vegan|dairy[- ]free|plant[- ]based) (?:milk|butter|cream|cheese|yog(?:h)?urt)\b/,
+  },
+  eggs: {
+    match: /\b(?:eggs?|yolks?|mayonnaise|mayo|meringue)\b/,
+    except: /\b(?:eggplants?|egg[- ]free|vegan mayo(?:nnaise)?)\b/,
+  },
+  nuts: {
+    match:
+      /\b(?:almonds?|walnuts?|pistachios?|cashews?|pecans?|hazelnuts?|macadamias?|pine nuts|nuts|pesto|praline|marzipan)\b/,
+    except: /\b(?:peanuts|coconuts?|nutmeg|nut[- ]free)\b/,
+  },
+  peanuts: {
+    match: /\bpeanuts?\b/,
+  },
+  shellfish: {
+    match: /\b(?:shrimps?|prawns?|crabs?|lobsters?|scallops?|mussels?|clams?|oysters?|squid)\b/,
+  },
+  fish: {
+    match:
+      /\b(?:fish|salmon|tuna|cod|anchov(?:y|ies)|sardines?|mackerel|tilapia|halibut|trout|bonito|dashi)\b/,
+  },
+  soy: {
+    match: /\b(?:soy|soya|tofu|edamame|miso|tempeh|tamari)\b/,
+  },
+  sesame: {
+    match: /\b(?:sesame|tahini)\b/,
+  },
+};
+
+// Allergens each diet rules out, so a profile diet implies its exclusions
+const DIET_EXCLUSIONS: { [diet in DietaryTag]: Allergen[] } = {
+  vegetarian: ['fish', 'shellfish'],
+  vegan: ['dairy', 'eggs', 'fish', 'shellfish'],
+  'gluten-free': ['gluten'],
+  'dairy-free': ['dairy'],
+};
+
+/**
+ * Finds the allergens an ingredient line or other text suggests
+ */
+export const detectAllergens = (text: string): Allergen[] => {
+  const lower = text.toLowerCase();
+  return ALLERGENS.filter((allergen) => {
+    const { match, except } = ALLERGEN_PATTERNS[allergen];
+    // Remove look-alikes first so "coconut milk" in "coconut milk and cream" still counts the cream
+    const cleaned = except ? lower.replace(new RegExp(except.source, 'g'), ' ') : lower;
+    return match.test(cleaned);
+  });
+};
+
+/**
+ * Every allergen a profile rules out, whether chosen directly or implied by a diet
+ */
+export const profileExclusions = (profile: DietaryProfile): Allergen[] =>
+  ALLERGENS.filter(
+    (allergen) =>
+      profile.excludedAllergens.includes(allergen) ||
+      profile.diets.some((diet) => DIET_EXCLUSIONS[diet].includes(allergen))
+  );
+
+export interface ProfileConflict {
+  allergen: Allergen;
+  // Ingredient names that contain the allergen; empty when only the recipe's tags say so
+  ingredients: string[];
+}
+
+export interface ProfileConflicts {
+  allergens: ProfileConflict[];
+  diets: DietaryTag[];
+}
+
+/**
+ * Lists where a recipe clashes with a dietary profile: excluded allergens found in its
+ * ingredients or tags, and chosen diets it is not tagged with
+ */
+export const findProfileConflicts = (
+  recipe: RecipeDetail,
+  profile: DietaryProfile
+): ProfileConflicts => {
+  const allergens = profileExclusions(profile)
+    .map((allergen) => ({
+      allergen,
+      ingredients: recipe.ingredients
+        .filter((ingredient) => detectAllergens(ingredient.item).includes(allergen))
+        .map((ingredient) => ingredient.item),
+    }))
+    .filter(
+      ({ allergen, ingredients }) => ingredients.length > 0 || recipe.allergens.includes(allergen)
+    );
+
+  const diets = profile.diets.filter((diet) => !recipe.dietaryTags.includes(diet));
+
+  return { allergens, diets };
+};
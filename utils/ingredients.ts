@@ -0,0 +1,391 @@
+/**
+ * Ingredient parsing and formatting utilities
+ * Converts free-text lines like "400g spaghetti" into structured ingredients and back
+ */
+
+import { Ingredient } from '../types';
+
+// Canonical unit names keyed by every spelling we accept
+const UNIT_ALIASES: { [key: string]: string } = {
+  g: 'g',
+  gram: 'g',
+  grams: 'g',
+  kg: 'kg',
+  ml: 'ml',
+  l: 'L',
+  liter: 'L',
+  liters: 'L',
+  litre: 'L',
+  litres: 'L',
+  tsp: 'tsp',
+  teaspoon: 'tsp',
+  teaspoons: 'tsp',
+  tbsp: 'tbsp',
+  tablespoon: 'tbsp',
+  tablespoons: 'tbsp',
+  cup: 'cup',
+  cups: 'cup',
+  oz: 'oz',
+  ounce: 'oz',
+  ounces: 'oz',
+  'fl oz': 'fl oz',
+  pint: 'pint',
+  pints: 'pint',
+  lb: 'lb',
+  lbs: 'lb',
+  pound: 'lb',
+  pounds: 'lb',
+  clove: 'clove',
+  cloves: 'clove',
+  can: 'can',
+  cans: 'can',
+  package: 'package',
+  packages: 'package',
+  sheet: 'sheet',
+  sheets: 'sheet',
+  slice: 'slice',
+  slices: 'slice',
+  stalk: 'stalk',
+  stalks: 'stalk',
+  pinch: 'pinch',
+  pinches: 'pinch',
+};
+
+// Metric units are shown as decimals rather than fractions
+const METRIC_UNITS = new Set(['g', 'kg', 'ml', 'L']);
+
+// Units that count discrete things rather than measure them
+const COUNTABLE_UNITS = new Set(['clove', 'can', 'package', 'sheet', 'slice', 'stalk', 'pinch']);
+
+// Units that stay the same in the plural
+const INVARIANT_UNITS = new Set(['tsp', 'tbsp', 'oz', 'fl oz', 'lb', ...METRIC_UNITS]);
+
+const UNICODE_FRACTIONS: { [key: string]: number } = {
+  '½': 1 / 2,
+  '⅓': 1 / 3,
+  '⅔': 2 / 3,
+  '¼': 1 / 4,
+  '¾': 3 / 4,
+  '⅛': 1 / 8,
+};
+
+// Denominators offered when rendering non-metric quantities as fractions
+const FRACTION_DENOMINATORS = [2, 3, 4, 8];
+
+// Mixed numbers come first, so "1 ½" is not read as 1 followed by an item starting with "½"
+const NUMBER_PATTERN =
+  '(\\d+\\s+\\d+\\/\\d+|\\d+\\s*[½⅓⅔¼¾⅛]|\\d+\\/\\d+|\\d+(?:\\.\\d+)?|[½⅓⅔¼¾⅛])';
+const QUANTITY_REGEX = new RegExp(`^${NUMBER_PATTERN}(?:\\s*[-–]\\s*${NUMBER_PATTERN})?\\s*`);
+const UNIT_REGEX = new RegExp(
+  `^(${Object.keys(UNIT_ALIASES).join('|')})\\b\\.?\\s*(?:of\\s+)?`,
+  'i'
+);
+
+/**
+ * Parses a single number token: "2", "1.5", "1/2", "1 1/2", "½" or "1 ½"
+ */
+const parseNumber = (token: string): number | null => {
+  const trimmed = token.trim();
+
+  if (UNICODE_FRACTIONS[trimmed] !== undefined) {
+    return UNICODE_FRACTIONS[trimmed];
+  }
+
+  const unicodeMixed = trimmed.match(/^(\d+)\s*([½⅓⅔¼¾⅛])$/);
+  if (unicodeMixed) {
+    return Number(unicodeMixed[1]) + (UNICODE_FRACTIONS[unicodeMixed[2] ?? ''] ?? 0);
+  }
+
+  const mixed = trimmed.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+  if (mixed) {
+    return Number(mixed[1]) + Number(mixed[2]) / Number(mixed[3]);
+  }
+
+  const fraction = trimmed.match(/^(\d+)\/(\d+)$/);
+  if (fraction) {
+    const denominator = Number(fraction[2]);
+    return denominator ? Number(fraction[1]) / denominator : null;
+  }
+
+  const value = Number(trimmed);
+  return Number.isFinite(value) ? value : null;
+};
+
+/**
+ * Parses a free-text ingredient line into its structured form
+ * Lines without a leading amount ("Salt and pepper") keep a null quantity
+ */
+export const parseIngredient = (line: string): Ingredient => {
+  let rest = line.trim();
+  const notes: string[] = [];
+  let optional = false;
+
+  // Parenthesised asides become notes, except "(optional)" which sets the flag
+  rest = rest.replace(/\s*\(([^)]*)\)/g, (_match, inner: string) => {
+    if (inner.trim().toLowerCase() === 'optional') {
+      optional = true;
+    } else if (inner.trim()) {
+      notes.push(inner.trim());
+    }
+    return '';
+  });
+
+  // Anything after the first comma is preparation ("grated", "finely diced")
+  const commaIndex = rest.indexOf(',');
+  if (commaIndex !== -1) {
+    const preparation = rest.slice(commaIndex + 1).trim();
+    if (preparation) notes.push(preparation);
+    rest = rest.slice(0, commaIndex).trim();
+  }
+
+  let quantity: number | null = null;
+  let quantityMax: number | undefined;
+  let unit: string | null = null;
+
+  const quantityMatch = rest.match(QUANTITY_REGEX);
+  if (quantityMatch) {
+    quantity = parseNumber(quantityMatch[1] ?? '');
+    const upper = quantityMatch[2] ? parseNumber(quantityMatch[2]) : null;
+    if (quantity !== null && upper !== null && upper > quantity) {
+      quantityMax = upper;
+    }
+    rest = rest.slice(quantityMatch[0].length);
+  }
+
+  const unitMatch = rest.match(UNIT_REGEX);
+  if (unitMatch && (quantity !== null || unitMatch[1]?.toLowerCase().startsWith('pinch'))) {
+    unit = UNIT_ALIASES[unitMatch[1]?.toLowerCase() ?? ''] ?? null;
+    // "Pinch of salt" carries an implied quantity of one
+    if (quantity === null) quantity = 1;
+    rest = rest.slice(unitMatch[0].length);
+  }
+
+  const ingredient: Ingredient = {
+    quantity,
+    unit,
+    item: rest.trim() || line.trim(),
+  };
+
+  if (quantityMax !== undefined) ingredient.quantityMax = quantityMax;
+  if (notes.length > 0) ingredient.note = notes.join(', ');
+  if (optional) ingredient.optional = true;
+
+  return ingredient;
+};
+
+/**
+ * Parses text that is nothing but an amount, like "240ml" or "1 cup"; anything else is null
+ */
+export const parseMeasurement = (text: string): { quantity: number; unit: string } | null => {
+  const trimmed = text.trim();
+  const quantityMatch = trimmed.match(QUANTITY_REGEX);
+  if (!quantityMatch) return null;
+
+  const rest = trimmed.slice(quantityMatch[0].length);
+  const unitMatch = rest.match(UNIT_REGEX);
+  if (!unitMatch || rest.slice(unitMatch[0].length).trim()) return null;
+
+  const quantity = parseNumber(quantityMatch[1] ?? '');
+  const unit = UNIT_ALIASES[unitMatch[1]?.toLowerCase() ?? ''];
+  return quantity !== null && unit ? { quantity, unit } : null;
+};
+
+/**
+ * Coerces whatever the model or the translation layer returned into an Ingredient
+ * Accepts legacy free-text strings as well as partially filled objects
+ */
+export const normalizeIngredient = (raw: unknown): Ingredient => {
+  if (typeof raw === 'string') {
+    return parseIngredient(raw);
+  }
+
+  if (!raw || typeof raw !== 'object') {
+    return { quantity: null, unit: null, item: String(raw ?? '') };
+  }
+
+  const value = raw as Record<string, unknown>;
+  const rawQuantity = value.quantity;
+  let quantity: number | null = null;
+  if (typeof rawQuantity === 'number' && Number.isFinite(rawQuantity)) {
+    quantity = rawQuantity;
+  } else if (typeof rawQuantity === 'string') {
+    quantity = parseNumber(rawQuantity);
+  }
+
+  const rawUnit = typeof value.unit === 'string' ? value.unit.trim() : '';
+  const ingredient: Ingredient = {
+    quantity,
+    unit: rawUnit ? (UNIT_ALIASES[rawUnit.toLowerCase()] ?? rawUnit) : null,
+    item: typeof value.item === 'string' ? value.item.trim() : '',
+  };
+
+  if (typeof value.quantityMax === 'number' && quantity !== null && value.quantityMax > quantity) {
+    ingredient.quantityMax = value.quantityMax;
+  }
+  if (typeof value.note === 'string' && value.note.trim()) {
+    ingredient.note = value.note.trim();
+  }
+  if (value.optional === true) {
+    ingredient.optional = true;
+  }
+
+  return ingredient;
+};
+
+export const normalizeIngredients = (raw: unknown): Ingredient[] =>
+  Array.isArray(raw)
+    ? raw.map(normalizeIngredient).filter((ingredient) => ingredient.item.length > 0)
+    : [];
+
+// Smallest amount shown, so a pinch of something scaled down never reads as "0 tsp"
+const SMALLEST_FRACTION = 1 / Math.max(...FRACTION_DENOMINATORS);
+const SMALLEST_DECIMAL = 0.01;
+
+/**
+ * Renders a quantity for display: fractions for kitchen measures, decimals for metric
+ */
+export const formatQuantity = (value: number, unit: string | null = null): string => {
+  if (unit && METRIC_UNITS.has(unit)) {
+    const rounded = Math.round(value * 100) / 100;
+    return String(value > 0 ? Math.max(SMALLEST_DECIMAL, rounded) : rounded);
+  }
+  if (value > 0 && value < SMALLEST_FRACTION) {
+    value = SMALLEST_FRACTION;
+  }
+
+  const whole = Math.floor(value);
+  const remainder = value - whole;
+
+  if (remainder < 0.01) return String(whole);
+  if (remainder > 0.99) return String(whole + 1);
+
+  // Pick the closest "kitchen" fraction
+  let best = { numerator: 0, denominator: 1, error: remainder };
+  for (const denominator of FRACTION_DENOMINATORS) {
+    const numerator = Math.round(remainder * denominator);
+    const error = Math.abs(remainder - numerator / denominator);
+    if (numerator > 0 && numerator < denominator && error < best.error - 1e-9) {
+      best = { numerator, denominator, error };
+    }
+  }
+
+  if (1 - remainder < best.error) return String(whole + 1);
+  if (best.numerator === 0) return String(whole);
+  const fraction = `${best.numerator}/${best.denominator}`;
+  return whole > 0 ? `${whole} ${fraction}` : fraction;
+};
+
+const formatUnit = (unit: string, quantity: number): string => {
+  if (INVARIANT_UNITS.has(unit) || quantity <= 1) return unit;
+  return unit.endsWith('ch') ? `${unit}es` : `${unit}s`;
+};
+
+/**
+ * Builds a readable line from a structured ingredient, e.g. "2 cloves garlic, minced"
+ * The optional flag is left to the caller so it can be rendered in the active language
+ */
+export const formatIngredient = (ingredient: Ingredient): string => {
+  const parts: string[] = [];
+
+  if (ingredient.quantity !== null) {
+    let amount = formatQuantity(ingredient.quantity, ingredient.unit);
+    if (ingredient.quantityMax !== undefined) {
+      amount += `-${formatQuantity(ingredient.quantityMax, ingredient.unit)}`;
+    }
+    const largest = ingredient.quantityMax ?? ingredient.quantity;
+
+    if (ingredient.unit) {
+      const unit = formatUnit(ingredient.unit, largest);
+      // Metric abbreviations are written directly after the number ("400g")
+      parts.push(METRIC_UNITS.has(ingredient.unit) ? `${amount}${unit}` : `${amount} ${unit}`);
+    } else {
+      parts.push(amount);
+    }
+  }
+
+  parts.push(ingredient.item);
+
+  const line = parts.join(' ');
+  return ingredient.note ? `${line}, ${ingredient.note}` : line;
+};
+
+const TSP_PER_TBSP = 3;
+const TBSP_PER_CUP = 16;
+
+/**
+ * Moves spoon and cup measures to a neighbouring unit once scaling makes them awkward
+ * (e.g. 1/8 cup becomes 2 tbsp, 6 tsp becomes 2 tbsp, 1200g becomes 1.2kg)
+ */
+const rebalanceMeasure = (
+  quantity: number,
+  unit: string | null
+): { quantity: number; unit: string | null } => {
+  if (unit === 'cup' && quantity < 0.25) {
+    return rebalanceMeasure(quantity * TBSP_PER_CUP, 'tbsp');
+  }
+  if (unit === 'tbsp' && quantity < 1) {
+    return { quantity: quantity * TSP_PER_TBSP, unit: 'tsp' };
+  }
+  if (unit === 'tbsp' && quantity >= TBSP_PER_CUP / 2) {
+    return { quantity: quantity / TBSP_PER_CUP, unit: 'cup' };
+  }
+  if (unit === 'tsp' && quantity >= TSP_PER_TBSP) {
+    return { quantity: quantity / TSP_PER_TBSP, unit: 'tbsp' };
+  }
+  if ((unit === 'g' || unit === 'ml') && quantity >= 1000) {
+    return { quantity: quantity / 1000, unit: unit === 'g' ? 'kg' : 'L' };
+  }
+  return { quantity, unit };
+};
+
+/**
+ * Rounds a scaled or converted quantity to something a cook can actually measure
+ */
+export const roundQuantity = (value: number, unit: string | null): number => {
+  if (unit === null || COUNTABLE_UNITS.has(unit)) {
+    // Whole items (eggs, cloves, cans) go to the nearest half, never below a quarter
+    return value >= 1 ? Math.round(value * 2) / 2 : Math.max(0.25, Math.round(value * 4) / 4);
+  }
+
+  switch (unit) {
+    case 'g':
+    case 'ml':
+      if (value < 20) return Math.max(1, Math.round(value));
+      if (value < 250) return Math.round(value / 5) * 5;
+      return Math.round(value / 10) * 10;
+    case 'kg':
+    case 'L':
+      return Math.max(0.05, Math.round(value * 20) / 20);
+    case 'oz':
+    case 'fl oz':
+      return value < 4 ? Math.max(0.25, Math.round(value * 4) / 4) : Math.round(value * 2) / 2;
+    default:
+      // Spoons, cups, pounds and pints are snapped to kitchen fractions by formatQuantity
+      return value;
+  }
+};
+
+/**
+ * Scales an ingredient by a yield factor (new servings / base servings)
+ */
+export const scaleIngredient = (ingredient: Ingredient, factor: number): Ingredient => {
+  if (ingredient.quantity === null || factor === 1) {
+    return ingredient;
+  }
+
+  const scaled = rebalanceMeasure(ingredient.quantity * factor, ingredient.unit);
+  // Keep the upper bound of a range in the same unit as the lower one
+  const ratio = scaled.quantity / ingredient.quantity;
+
+  const result: Ingredient = {
+    ...ingredient,
+    quantity: roundQuantity(scaled.quantity, scaled.unit),
+    unit: scaled.unit,
+  };
+
+  if (ingredient.quantityMax !== undefined) {
+    result.quantityMax = roundQuantity(ingredient.quantityMax * ratio, scaled.unit);
+  }
+
+  return result;
+};
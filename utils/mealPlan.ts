@@ -0,0 +1,65 @@
+/**
+ * Weekly meal plan helpers
+ * A plan is a list of recipes placed in day and meal slots; days run Monday to Sunday
+ */
+
+import { MealSlot, PlannedMeal } from '../types';
+
+export const MEAL_SLOTS: MealSlot[] = ['breakfast', 'lunch', 'dinner'];
+
+export const WEEK_DAYS = [0, 1, 2, 3, 4, 5, 6];
+
+// 1 January 2024 was a Monday; used to name weekdays in any language
+const REFERENCE_YEAR = 2024;
+
+/**
+ * Weekday names from Monday to Sunday in the given language
+ */
+export const getWeekdayNames = (language: string, width: 'long' | 'short' = 'long'): string[] => {
+  const format = new Intl.DateTimeFormat(language, { weekday: width });
+  return WEEK_DAYS.map((day) => format.format(new Date(REFERENCE_YEAR, 0, 1 + day)));
+};
+
+export const findPlannedMeal = (
+  plan: PlannedMeal[],
+  day: number,
+  slot: MealSlot
+): PlannedMeal | undefined => plan.find((meal) => meal.day === day && meal.slot === slot);
+
+/**
+ * Puts a recipe in a slot, replacing whatever was there
+ */
+export const placeMeal = (plan: PlannedMeal[], meal: PlannedMeal): PlannedMeal[] => [
+  ...plan.filter((other) => other.day !== meal.day || other.slot !== meal.slot),
+  meal,
+];
+
+export const removeMeal = (plan: PlannedMeal[], day: number, slot: MealSlot): PlannedMeal[] =>
+  plan.filter((meal) => meal.day !== day || meal.slot !== slot);
+
+/**
+ * Calories for one serving of every meal planned on a day
+ */
+export const getDailyKcal = (plan: PlannedMeal[], day: number): number =>
+  plan
+    .filter((meal) => meal.day === day)
+    .reduce((total, meal) => total + meal.recipe.kcalPerServing, 0);
+
+/**
+ * Each distinct recipe in the plan with how many times it is cooked,
+ * so a shopping list can scale its ingredients accordingly
+ */
+export const countPlannedRecipes = (
+  plan: PlannedMeal[]
+): { recipe: PlannedMeal['recipe']; times: number }[] => {
+  const counts = new Map<string, { recipe: PlannedMeal['recipe']; times: number }>();
+  for (const { recipe } of plan) {
+    const entry = counts.get(recipe.id);
+    if (entry) {
+      entry.times += 1;
+    } else {
+      counts.set(recipe.id, { recipe, times: 1 });
+    }
+  }
+  return [...counts.values()];
+};
@@ -0,0 +1,50 @@
+/**
+ * Nutrition facts per serving, and how they are listed in the nutrition panel
+ */
+
+import { Nutrition } from '../types';
+
+export interface NutrientInfo {
+  key: keyof Nutrition;
+  unit: 'g' | 'mg';
+  // Reference daily intake for adults, used for the % daily value column
+  dailyValue: number;
+}
+
+// In the order nutrition labels usually list them
+export const NUTRIENTS: NutrientInfo[] = [
+  { key: 'fatG', unit: 'g', dailyValue: 78 },
+  { key: 'sodiumMg', unit: 'mg', dailyValue: 2300 },
+  { key: 'carbsG', unit: 'g', dailyValue: 275 },
+  { key: 'fiberG', unit: 'g', dailyValue: 28 },
+  { key: 'sugarG', unit: 'g', dailyValue: 50 },
+  { key: 'proteinG', unit: 'g', dailyValue: 50 },
+];
+
+const parseAmount = (value: unknown): number | null => {
+  const amount = typeof value === 'string' ? parseFloat(value) : value;
+  return typeof amount === 'number' && Number.isFinite(amount) && amount >= 0 ? amount : null;
+};
+
+/**
+ * Coerces model-supplied nutrition into numbers, accepting strings such as "12 g"
+ * Returns undefined unless every nutrient is present, so the panel never shows a partial label
+ */
+export const normalizeNutrition = (raw: unknown): Nutrition | undefined => {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const values = raw as Record<string, unknown>;
+
+  const nutrition: Partial<Nutrition> = {};
+  for (const { key, unit } of NUTRIENTS) {
+    const amount = parseAmount(values[key]);
+    if (amount === null) return undefined;
+    nutrition[key] = unit === 'mg' ? Math.round(amount) : Math.round(amount * 10) / 10;
+  }
+  return nutrition as Nutrition;
+};
+
+/**
+ * Share of the reference daily intake one serving provides, as a whole percentage
+ */
+export const getDailyValuePercent = (nutrient: NutrientInfo, amount: number): number =>
+  Math.round((amount / nutrient.dailyValue) * 100);
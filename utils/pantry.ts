@@ -0,0 +1,106 @@
+/**
+ * Pantry search helpers
+ * Compares the ingredients a user has on hand with a recipe's ingredient list
+ */
+
+import { Ingredient, PantryResult } from '../types';
+import { toTerms } from './searchIndex';
+
+// Everyday basics assumed to be in every kitchen, so they never count as missing
+// Matched as whole names, so "black beans" or "ground beef" are not mistaken for staples
+const STAPLES = new Set(
+  [
+    'salt',
+    'sea salt',
+    'kosher salt',
+    'pepper',
+    'black pepper',
+    'ground black pepper',
+    'freshly ground black pepper',
+    'salt and pepper',
+    'water',
+    'cold water',
+    'warm water',
+    'ice',
+    'ice water',
+    'oil',
+    'olive oil',
+    'extra virgin olive oil',
+    'vegetable oil',
+    'cooking oil',
+    'cooking spray',
+  ].map((staple) => toTerms(staple).join(' '))
+);
+
+// Products named after their source ("chicken stock", "rice vinegar") are different ingredients
+const PRODUCT_TERMS = new Set(
+  toTerms('stock broth vinegar sauce paste oil flour powder extract wine milk cream')
+);
+
+export type PantryMatch = Pick<
+  PantryResult,
+  'matchedIngredients' | 'missingIngredients' | 'pantryCoverage'
+>;
+
+/**
+ * Splits free text such as "chicken, rice and spinach" into distinct pantry items
+ */
+export const parsePantryItems = (text: string | null): string[] => {
+  const seen = new Set<string>();
+  return (text ?? '')
+    .split(/,|\n|;|\band\b|&/i)
+    .map((item) => item.trim().toLowerCase())
+    .filter((item) => {
+      if (!item || seen.has(item)) return false;
+      seen.add(item);
+      return true;
+    });
+};
+
+const isStaple = (terms: string[]): boolean => terms.length > 0 && STAPLES.has(terms.join(' '));
+
+const covers = (pantryItem: string[], ingredient: string[]): boolean => {
+  const head = ingredient[ingredient.length - 1];
+  if (head && PRODUCT_TERMS.has(head) && !pantryItem.includes(head)) return false;
+  return pantryItem.every((term) => ingredient.includes(term));
+};
+
+/**
+ * Sorts a recipe's ingredients into those covered by the pantry and those still needed
+ * A pantry item covers an ingredient when all of its words appear in the ingredient,
+ * so "chicken" covers "chicken breasts" but not "chicken stock"; staples and optional
+ * ingredients are never missing
+ */
+export const matchPantry = (ingredients: Ingredient[], pantry: string[]): PantryMatch => {
+  const pantryTerms = pantry.map(toTerms).filter((terms) => terms.length > 0);
+  const usedPantryItems = new Set<string[]>();
+  const matchedIngredients: string[] = [];
+  const missingIngredients: string[] = [];
+
+  for (const ingredient of ingredients) {
+    const terms = toTerms(ingredient.item);
+    const coveringItems = pantryTerms.filter((item) => covers(item, terms));
+    coveringItems.forEach((item) => usedPantryItems.add(item));
+
+    if (coveringItems.length > 0) {
+      matchedIngredients.push(ingredient.item);
+    } else if (!ingredient.optional && !isStaple(terms)) {
+      missingIngredients.push(ingredient.item);
+    }
+  }
+
+  return {
+    matchedIngredients,
+    missingIngredients,
+    pantryCoverage: pantryTerms.length > 0 ? usedPantryItems.size / pantryTerms.length : 0,
+  };
+};
+
+/**
+ * Orders pantry results by how much of the pantry they use, then by fewest missing ingredients,
+ * so a recipe built around most of what is on hand beats one that uses a single item
+ */
+export const comparePantryResults = (a: PantryResult, b: PantryResult): number =>
+  b.pantryCoverage - a.pantryCoverage ||
+  a.missingIngredients.length - b.missingIngredients.length ||
+  b.matchedIngredients.length - a.matchedIngredients.length;
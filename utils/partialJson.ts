@@ -0,0 +1,103 @@
+/**
+ * Parses JSON that is still being streamed in, e.g. '{"name": "Pad Th' -> { name: 'Pad Th' }
+ * Open strings, arrays and objects are closed; a dangling key, comma or half-written
+ * number or literal is dropped, since it may still change
+ */
+
+type Container = '{' | '[';
+
+const closeAll = (stack: Container[]): string =>
+  stack
+    .map((container) => (container === '{' ? '}' : ']'))
+    .reverse()
+    .join('');
+
+/**
+ * Returns everything parsed so far, or undefined when not even the root value has started
+ */
+export const parsePartialJson = (text: string): unknown => {
+  const json = text.replace(/^\s*```(?:json)?\s*/, '');
+  const stack: Container[] = [];
+  // The longest prefix that ends on a complete value or an opened container, closed off
+  let safe = '';
+  let inString = false;
+  let isKey = false;
+  let escapeStart = -1;
+  // Start of the number or literal being read, if any
+  let tokenStart = -1;
+  // Objects alternate between expecting a key and a value
+  let expectKey = false;
+
+  const markSafe = (end: number) => {
+    safe = json.slice(0, end) + closeAll(stack);
+  };
+
+  for (let index = 0; index < json.length; index++) {
+    const char = json[index];
+
+    if (inString) {
+      if (escapeStart !== -1) {
+        // \uXXXX escapes span four more characters
+        const isUnicode = json[escapeStart + 1] === 'u';
+        if (!isUnicode || index - escapeStart >= 5) escapeStart = -1;
+      } else if (char === '\\') {
+        escapeStart = index;
+      } else if (char === '"') {
+        inString = false;
+        if (!isKey) markSafe(index + 1);
+      }
+      continue;
+    }
+
+    if (tokenStart !== -1 && /[\s,\]}:]/.test(char ?? '')) {
+      tokenStart = -1;
+      markSafe(index);
+    }
+
+    switch (char) {
+      case '"':
+        inString = true;
+        isKey = stack.at(-1) === '{' && expectKey;
+        break;
+      case '{':
+        stack.push('{');
+        expectKey = true;
+        markSafe(index + 1);
+        break;
+      case '[':
+        stack.push('[');
+        expectKey = false;
+        markSafe(index + 1);
+        break;
+      case '}':
+      case ']':
+        stack.pop();
+        expectKey = false;
+        markSafe(index + 1);
+        break;
+      case ':':
+        expectKey = false;
+        break;
+      case ',':
+        expectKey = stack.at(-1) === '{';
+        break;
+      default:
+        if (tokenStart === -1 && char !== undefined && /[-\d.eEa-z+]/.test(char)) {
+          tokenStart = index;
+        }
+    }
+  }
+
+  // A value string cut off mid-way is shown as far as it goes
+  if (inString && !isKey) {
+    const end = escapeStart !== -1 ? escapeStart : json.length;
+    safe = `${json.slice(0, end)}"${closeAll(stack)}`;
+  }
+
+  if (!safe) return undefined;
+  try {
+    return JSON.parse(safe);
+  } catch {
+    return undefined;
+  }
+};
@@ -0,0 +1,53 @@
+/**
+ * Module-level state mirrored to localStorage, for hooks that read it with useSyncExternalStore
+ * One store is shared across every component using it, so a change re-renders all of them
+ */
+
+export interface PersistedStore<T> {
+  get: () => T;
+  // Updates the value and notifies subscribers; it still applies for the session if storage fails
+  set: (value: T) => void;
+  subscribe: (listener: () => void) => () => void;
+}
+
+/**
+ * Creates a store for the JSON value under a localStorage key
+ * `parse` validates what was stored, returning undefined to fall back to the default
+ */
+export const createPersistedStore = <T>(
+  key: string,
+  parse: (stored: unknown) => T | undefined,
+  fallback: T
+): PersistedStore<T> => {
+  const read = (): T => {
+    try {
+      const stored = localStorage.getItem(key);
+      if (stored !== null) return parse(JSON.parse(stored)) ?? fallback;
+    } catch {
+      // Storage can be unavailable (private mode) or hold malformed JSON
+    }
+    return fallback;
+  };
+
+  let current = read();
+  const listeners = new Set<() => void>();
+
+  const set = (value: T) => {
+    current = value;
+    try {
+      localStorage.setItem(key, JSON.stringify(value));
+    } catch {
+      // Kept in memory only
+    }
+    listeners.forEach((listener) => listener());
+  };
+
+  const subscribe = (listener: () => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return { get: () => current, set, subscribe };
+};
@@ -0,0 +1,32 @@
+/**
+ * Self-contained placeholder images, used when photos cannot be fetched (e.g. offline mode)
+ */
+
+const escapeXml = (text: string): string =>
+  text.replace(/[<>&'"]/g, (char) => `&#${char.charCodeAt(0)};`);
+
+/**
+ * Builds an SVG data URL with the label over a gradient
+ * The colours are derived from the label, so a recipe always gets the same image
+ */
+export const createPlaceholderImage = (label: string, width: number, height: number): string => {
+  let hash = 0;
+  for (const char of label) {
+    hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  }
+  const hue = hash % 360;
+  const fontSize = Math.round(Math.min(width, height) / 10);
+
+  const svg =
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">` +
+    `<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1">` +
+    `<stop offset="0" stop-color="hsl(${hue},70%,62%)"/>` +
+    `<stop offset="1" stop-color="hsl(${(hue + 40) % 360},65%,42%)"/>` +
+    `</linearGradient></defs>` +
+    `<rect width="100%" height="100%" fill="url(#g)"/>` +
+    `<text x="50%" y="50%" dominant-baseline="middle" text-anchor="middle" fill="#fff" ` +
+    `font-family="Georgia, serif" font-size="${fontSize}">${escapeXml(label)}</text>` +
+    `</svg>`;
+
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+};
@@ -0,0 +1,130 @@
+/**
+ * Parsing and formatting for recipe timings and energy
+ * Values are stored as plain numbers and only turned into text at render time
+ */
+
+import { TFunction } from 'i18next';
+
+export interface RecipeMetrics {
+  prepMinutes: number;
+  cookMinutes: number;
+  totalMinutes: number;
+  kcalPerServing: number;
+}
+
+/**
+ * Reads a duration in minutes from a number or text such as "25 min", "1 hr 15 min",
+ * "1.5 hours", "45-50 minutes" or an ISO 8601 duration ("PT1H30M")
+ * Ranges resolve to their upper bound so totals are never understated
+ */
+export const parseMinutes = (value: unknown): number | null => {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && value >= 0 ? Math.round(value) : null;
+  }
+  if (typeof value !== 'string' || !value.trim()) {
+    return null;
+  }
+
+  const text = value.trim().toLowerCase();
+
+  const iso = text.match(/^pt(?:(\d+(?:\.\d+)?)h)?(?:(\d+(?:\.\d+)?)m)?$/);
+  if (iso && (iso[1] || iso[2])) {
+    return Math.round(Number(iso[1] ?? 0) * 60 + Number(iso[2] ?? 0));
+  }
+
+  let minutes = 0;
+  let matched = false;
+
+  const hours = text.match(
+    /(\d+(?:\.\d+)?)(?:\s*[-–]\s*(\d+(?:\.\d+)?))?\s*(?:h|hr|hrs|hour|hours)\b/
+  );
+  if (hours) {
+    minutes += Number(hours[2] ?? hours[1]) * 60;
+    matched = true;
+  }
+
+  const mins = text.match(/(\d+)(?:\s*[-–]\s*(\d+))?\s*(?:m|min|mins|minute|minutes)\b/);
+  if (mins) {
+    minutes += Number(mins[2] ?? mins[1]);
+    matched = true;
+  }
+
+  if (!matched) {
+    // A bare number ("30") is taken to be minutes
+    const bare = text.match(/^(\d+(?:\.\d+)?)(?:\s*[-–]\s*(\d+(?:\.\d+)?))?$/);
+    if (!bare) return null;
+    minutes = Number(bare[2] ?? bare[1]);
+  }
+
+  return Math.round(minutes);
+};
+
+/**
+ * Reads kilocalories from a number or text such as "450 kcal", "450 calories"
+ * or "400-500 kcal" (ranges resolve to their midpoint)
+ */
+export const parseKcal = (value: unknown): number | null => {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) && value >= 0 ? Math.round(value) : null;
+  }
+  if (typeof value !== 'string') {
+    return null;
+  }
+
+  const match = value.replace(/,/g, '').match(/(\d+(?:\.\d+)?)(?:\s*[-–]\s*(\d+(?:\.\d+)?))?/);
+  if (!match) {
+    return null;
+  }
+
+  const low = Number(match[1]);
+  const high = match[2] ? Number(match[2]) : low;
+  return Math.round((low + high) / 2);
+};
+
+/**
+ * Fills in the numeric timing and energy fields from whatever a model returned,
+ * including legacy "prepTime"/"calories" display strings
+ */
+export const normalizeMetrics = (raw: Record<string, unknown>): RecipeMetrics => {
+  let prep = parseMinutes(raw.prepMinutes);
+  let cook = parseMinutes(raw.cookMinutes);
+  let total = parseMinutes(raw.totalMinutes) ?? parseMinutes(raw.prepTime);
+
+  if (total === null) {
+    total = (prep ?? 0) + (cook ?? 0);
+  }
+  if (prep === null && cook === null) {
+    // Only an overall time is known; treat it as hands-on time
+    prep = total;
+    cook = 0;
+  } else if (prep === null) {
+    prep = Math.max(0, total - (cook ?? 0));
+  } else if (cook === null) {
+    cook = Math.max(0, total - prep);
+  }
+
+  return {
+    prepMinutes: prep ?? 0,
+    cookMinutes: cook ?? 0,
+    totalMinutes: Math.max(total, (prep ?? 0) + (cook ?? 0)),
+    kcalPerServing: parseKcal(raw.kcalPerServing) ?? parseKcal(raw.calories) ?? 0,
+  };
+};
+
+/**
+ * Formats a duration in the active language, e.g. "45 min" or "1 hr 15 min"
+ */
+export const formatDuration = (t: TFunction, minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+
+  if (hours === 0) return t('time.minutes', { count: rest });
+  if (rest === 0) return t('time.hours', { count: hours });
+  return t('time.hoursMinutes', { hours, minutes: rest });
+};
+
+/**
+ * Formats an energy value with locale-aware digit grouping, e.g. "1,250 kcal"
+ */
+export const formatKcal = (t: TFunction, kcal: number): string =>
+  t('nutrition.kcal', { value: kcal });
@@ -0,0 +1,24 @@
+/**
+ * URL slugs for recipes. A recipe's id is the slug of its English name, so the same dish gets the
+ * same id whether it comes from the static catalog, the model or a shared link
+ */
+
+/**
+ * Lowercases and hyphenates a name, dropping Latin accents but keeping other scripts
+ * so translated names still produce usable aliases
+ * @example toRecipeSlug('Crème Brûlée') // 'creme-brulee'
+ */
+export const toRecipeSlug = (name: string): string =>
+  name
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{M}\p{N}]+/gu, '-')
+    .replace(/^-+|-+$/g, '');
+
+/**
+ * Best-effort name for a slug nothing else knows about, e.g. a shared link to a generated recipe
+ */
+export const slugToName = (slug: string): string => slug.replace(/-+/g, ' ').trim();
+
+export const getRecipePath = (id: string): string => `/recipe/${encodeURIComponent(id)}`;
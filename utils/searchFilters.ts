@@ -0,0 +1,203 @@
+/**
+ * Search filter and sort helpers
+ * Filters and sort order live in the URL query string so searches can be bookmarked and shared
+ */
+
+import {
+  DietaryProfile,
+  DietaryTag,
+  Difficulty,
+  RecipeSummary,
+  SearchFilters,
+  SearchResult,
+  SortOption,
+} from '../types';
+
+export const DIFFICULTIES: Difficulty[] = ['easy', 'medium', 'hard'];
+
+export const DIETARY_TAGS: DietaryTag[] = ['vegetarian', 'vegan', 'gluten-free', 'dairy-free'];
+
+export const SORT_OPTIONS: SortOption[] = ['relevance', 'quickest', 'calories', 'alphabetical'];
+
+// Choices offered in the filter sidebar
+export const MAX_TIME_OPTIONS = [15, 30, 45, 60, 90];
+export const MAX_KCAL_OPTIONS = [300, 400, 500, 700];
+
+const parseList = <T extends string>(value: string | null, allowed: T[]): T[] =>
+  (value ?? '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item): item is T => allowed.includes(item as T));
+
+const parsePositiveInt = (value: string | null): number | undefined => {
+  const parsed = Number(value);
+  return value && Number.isInteger(parsed) && parsed > 0 ? parsed : undefined;
+};
+
+/**
+ * Reads filters from URL query parameters, ignoring anything malformed
+ * e.g. ?category=Italian&maxTime=30&maxKcal=500&difficulty=easy,medium&diet=vegan
+ */
+export const parseSearchFilters = (params: URLSearchParams): SearchFilters => {
+  const filters: SearchFilters = {};
+
+  const category = params.get('category')?.trim();
+  if (category) filters.category = category;
+
+  const maxTotalMinutes = parsePositiveInt(params.get('maxTime'));
+  if (maxTotalMinutes) filters.maxTotalMinutes = maxTotalMinutes;
+
+  const maxKcal = parsePositiveInt(params.get('maxKcal'));
+  if (maxKcal) filters.maxKcal = maxKcal;
+
+  const difficulty = parseList(params.get('difficulty'), DIFFICULTIES);
+  if (difficulty.length > 0) filters.difficulty = difficulty;
+
+  const dietaryTags = parseList(params.get('diet'), DIETARY_TAGS);
+  if (dietaryTags.length > 0) filters.dietaryTags = dietaryTags;
+
+  return filters;
+};
+
+/**
+ * Writes filters into URL query parameters, leaving unrelated parameters untouched
+ */
+export const applySearchFilters = (
+  params: URLSearchParams,
+  filters: SearchFilters
+): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  const entries: [string, string | undefined][] = [
+    ['category', filters.category],
+    ['maxTime', filters.maxTotalMinutes?.toString()],
+    ['maxKcal', filters.maxKcal?.toString()],
+    ['difficulty', filters.difficulty?.join(',')],
+    ['diet', filters.dietaryTags?.join(',')],
+  ];
+
+  for (const [key, value] of entries) {
+    if (value) {
+      next.set(key, value);
+    } else {
+      next.delete(key);
+    }
+  }
+
+  return next;
+};
+
+export const hasActiveFilters = (filters: SearchFilters): boolean =>
+  Object.values(filters).some((value) => (Array.isArray(value) ? value.length > 0 : !!value));
+
+/**
+ * Checks a recipe against every active filter
+ */
+export const matchesFilters = (recipe: RecipeSummary, filters: SearchFilters): boolean => {
+  if (filters.category && recipe.category.toLowerCase() !== filters.category.toLowerCase()) {
+    return false;
+  }
+  if (filters.maxTotalMinutes && recipe.totalMinutes > filters.maxTotalMinutes) {
+    return false;
+  }
+  if (filters.maxKcal && recipe.kcalPerServing > filters.maxKcal) {
+    return false;
+  }
+  if (filters.difficulty?.length && !filters.difficulty.includes(recipe.difficulty)) {
+    return false;
+  }
+  if (filters.dietaryTags?.some((tag) => !recipe.dietaryTags.includes(tag))) {
+    return false;
+  }
+  if (filters.excludedAllergens?.some((allergen) => recipe.allergens.includes(allergen))) {
+    return false;
+  }
+  return true;
+};
+
+/**
+ * Adds the diets and allergen exclusions from the user's dietary profile to a set of filters
+ */
+export const withDietaryProfile = (
+  filters: SearchFilters,
+  profile: DietaryProfile
+): SearchFilters => {
+  const merged: SearchFilters = { ...filters };
+
+  const dietaryTags = [...new Set([...(filters.dietaryTags ?? []), ...profile.diets])];
+  if (dietaryTags.length > 0) merged.dietaryTags = dietaryTags;
+
+  const excludedAllergens = [
+    ...new Set([...(filters.excludedAllergens ?? []), ...profile.excludedAllergens]),
+  ];
+  if (excludedAllergens.length > 0) merged.excludedAllergens = excludedAllergens;
+
+  return merged;
+};
+
+/**
+ * Describes active filters as constraints for a generation prompt
+ */
+export const describeFilters = (filters: SearchFilters, subject = 'Every recipe'): string => {
+  const constraints: string[] = [];
+
+  if (filters.dietaryTags?.length) {
+    constraints.push(`be ${filters.dietaryTags.join(' and ')}`);
+  }
+  if (filters.excludedAllergens?.length) {
+    constraints.push(`contain no ${filters.excludedAllergens.join(', ')} in any form`);
+  }
+  if (filters.maxTotalMinutes) {
+    constraints.push(`take at most ${filters.maxTotalMinutes} minutes in total`);
+  }
+  if (filters.maxKcal) {
+    constraints.push(`have at most ${filters.maxKcal} kcal per serving`);
+  }
+  if (filters.difficulty?.length) {
+    constraints.push(`be of ${filters.difficulty.join(' or ')} difficulty`);
+  }
+  if (filters.category) {
+    constraints.push(`belong to the ${filters.category} cuisine category`);
+  }
+
+  return constraints.length > 0 ? `${subject} must ${constraints.join(', ')}.` : '';
+};
+
+/**
+ * Reads the sort order from URL query parameters, defaulting to relevance
+ */
+export const parseSortOption = (params: URLSearchParams): SortOption => {
+  const sort = params.get('sort');
+  return SORT_OPTIONS.find((option) => option === sort) ?? 'relevance';
+};
+
+/**
+ * Writes the sort order into URL query parameters; relevance is the default and is left out
+ */
+export const applySortOption = (params: URLSearchParams, sort: SortOption): URLSearchParams => {
+  const next = new URLSearchParams(params);
+  if (sort === 'relevance') {
+    next.delete('sort');
+  } else {
+    next.set('sort', sort);
+  }
+  return next;
+};
+
+/**
+ * Returns results in the requested order, falling back to relevance to break ties
+ * Names are compared in the display language because results may be translated
+ */
+export const sortResults = (
+  results: SearchResult[],
+  sort: SortOption,
+  language: string
+): SearchResult[] => {
+  const byRelevance = (a: SearchResult, b: SearchResult) => b.relevance - a.relevance;
+  const compare: { [option in SortOption]: (a: SearchResult, b: SearchResult) => number } = {
+    relevance: byRelevance,
+    quickest: (a, b) => a.totalMinutes - b.totalMinutes || byRelevance(a, b),
+    calories: (a, b) => a.kcalPerServing - b.kcalPerServing || byRelevance(a, b),
+    alphabetical: (a, b) => a.name.localeCompare(b.name, language) || byRelevance(a, b),
+  };
+  return [...results].sort(compare[sort]);
+};
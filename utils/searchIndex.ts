@@ -0,0 +1,241 @@
+/**
+ * Local full-text search over recipes
+ * An inverted index maps stemmed terms to the recipes and fields they appear in; query terms
+ * missing from the vocabulary are matched by prefix or within a small edit distance
+ */
+
+import { RecipeSummary, SearchResult } from '../types';
+
+export interface IndexedRecipe {
+  recipe: RecipeSummary;
+  ingredients?: string[];
+}
+
+export interface SearchHit {
+  recipe: RecipeSummary;
+  relevance: number;
+  // Share of query terms found in the recipe, from 0 to 1
+  coverage: number;
+}
+
+export interface SearchIndex {
+  search: (query: string) => SearchHit[];
+}
+
+type Field = 'name' | 'category' | 'description' | 'ingredients';
+
+const FIELD_WEIGHTS: { [field in Field]: number } = {
+  name: 4,
+  category: 3,
+  ingredients: 1.5,
+  description: 1,
+};
+
+// How much a fuzzy term match counts compared with an exact one
+const PREFIX_MATCH = 0.75;
+const TYPO_MATCH = 0.6;
+
+// Bonus for typing a recipe's full name, so it outranks recipes that merely mention it
+const EXACT_NAME_BONUS = 5;
+
+// Filler words that say nothing about which recipe is wanted
+const STOP_WORDS = new Set([
+  'a',
+  'an',
+  'and',
+  'or',
+  'the',
+  'with',
+  'of',
+  'in',
+  'on',
+  'for',
+  'recipe',
+]);
+
+/**
+ * Splits text into lowercase word tokens, keeping letters from any script
+ * Latin accents are dropped so "bechamel" finds "béchamel"
+ */
+const tokenize = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token && !STOP_WORDS.has(token));
+
+/**
+ * Reduces an English word to a crude stem so plurals and verb forms meet,
+ * e.g. "brownies"/"brownie", "berries"/"berry", "baked"/"baking"/"bake"
+ */
+const stem = (token: string): string => {
+  if (token.length <= 3 || !/^[a-z]+$/.test(token)) return token;
+
+  let word = token;
+  if (word.endsWith('ies')) {
+    word = `${word.slice(0, -3)}i`;
+  } else if (/(?:sh|ch|x|z|o)es$/.test(word)) {
+    word = word.slice(0, -2);
+  } else if (word.endsWith('s') && !/(?:ss|us|is)$/.test(word)) {
+    word = word.slice(0, -1);
+  }
+
+  if (word.length > 5 && word.endsWith('ing')) {
+    word = word.slice(0, -3);
+  } else if (word.length > 4 && word.endsWith('ied')) {
+    word = `${word.slice(0, -3)}i`;
+  } else if (word.length > 4 && word.endsWith('ed')) {
+    word = word.slice(0, -2);
+  }
+
+  if (word.length > 2 && word.endsWith('y')) {
+    word = `${word.slice(0, -1)}i`;
+  } else if (word.length > 2 && word.endsWith('e')) {
+    word = word.slice(0, -1);
+  }
+
+  return word;
+};
+
+/**
+ * Turns text into the stemmed terms used by the index
+ */
+export const toTerms = (text: string): string[] => tokenize(text).map(stem);
+
+/**
+ * Edits allowed for a query term of this length; short words are too easy to confuse
+ */
+const maxTypos = (term: string): number => (term.length <= 4 ? 0 : term.length <= 7 ? 1 : 2);
+
+/**
+ * Edit distance counting adjacent transpositions as one edit ("spagehtti")
+ * Gives up early and returns limit + 1 once the distance is known to exceed the limit
+ */
+const editDistance = (a: string, b: string, limit: number): number => {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+
+  let previous2: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(
+        (previous[j] ?? 0) + 1,
+        (current[j - 1] ?? 0) + 1,
+        (previous[j - 1] ?? 0) + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, (previous2[j - 2] ?? 0) + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+    if (rowMin > limit) return limit + 1;
+    previous2 = previous;
+    previous = current;
+  }
+
+  return previous[b.length] ?? limit + 1;
+};
+
+/**
+ * Builds an index over recipe names, categories, descriptions and ingredient lines
+ */
+export const createSearchIndex = (entries: IndexedRecipe[]): SearchIndex => {
+  // term -> entry position -> combined weight of the fields containing the term
+  const postings = new Map<string, Map<number, number>>();
+
+  entries.forEach(({ recipe, ingredients = [] }, position) => {
+    const fields: { [field in Field]: string } = {
+      name: recipe.name,
+      category: recipe.category,
+      description: recipe.shortDescription,
+      ingredients: ingredients.join(' '),
+    };
+
+    for (const field of Object.keys(fields) as Field[]) {
+      for (const term of new Set(toTerms(fields[field]))) {
+        const docs = postings.get(term) ?? new Map<number, number>();
+        docs.set(position, (docs.get(position) ?? 0) + FIELD_WEIGHTS[field]);
+        postings.set(term, docs);
+      }
+    }
+  });
+
+  /**
+   * Finds the indexed terms a query term should match, with how strongly each one counts
+   */
+  const expandTerm = (term: string): [string, number][] => {
+    if (postings.has(term)) return [[term, 1]];
+
+    const limit = maxTypos(term);
+    const matches: [string, number][] = [];
+    for (const candidate of postings.keys()) {
+      if (term.length >= 3 && candidate.startsWith(term)) {
+        matches.push([candidate, PREFIX_MATCH]);
+      } else if (limit > 0 && editDistance(term, candidate, limit) <= limit) {
+        matches.push([candidate, TYPO_MATCH]);
+      }
+    }
+    return matches;
+  };
+
+  const search = (query: string): SearchHit[] => {
+    const terms = [...new Set(toTerms(query))];
+    if (terms.length === 0) return [];
+
+    const scores = new Map<number, number>();
+    const matchedTerms = new Map<number, number>();
+
+    for (const term of terms) {
+      // A query term counts once per recipe, through its best-matching indexed term
+      const best = new Map<number, number>();
+      for (const [candidate, strength] of expandTerm(term)) {
+        const docs = postings.get(candidate) ?? new Map<number, number>();
+        const idf = Math.log(1 + entries.length / docs.size);
+        for (const [position, weight] of docs) {
+          best.set(position, Math.max(best.get(position) ?? 0, weight * strength * idf));
+        }
+      }
+      for (const [position, score] of best) {
+        scores.set(position, (scores.get(position) ?? 0) + score);
+        matchedTerms.set(position, (matchedTerms.get(position) ?? 0) + 1);
+      }
+    }
+
+    const phrase = tokenize(query).join(' ');
+    const hits: SearchHit[] = [];
+    entries.forEach(({ recipe }, position) => {
+      const score = scores.get(position);
+      if (score === undefined) return;
+      const coverage = (matchedTerms.get(position) ?? 0) / terms.length;
+      const bonus = tokenize(recipe.name).join(' ') === phrase ? EXACT_NAME_BONUS : 0;
+      hits.push({ recipe, relevance: score * coverage + bonus, coverage });
+    });
+
+    // Stable sort: equally relevant recipes stay in catalog order
+    return hits.sort((a, b) => b.relevance - a.relevance);
+  };
+
+  return { search };
+};
+
+/**
+ * Attaches a relevance score to each recipe and orders them best first
+ * Recipes that do not match keep a score of 0 and their incoming order, so a model's
+ * own ranking survives for vague queries
+ */
+export const rankRecipes = (recipes: RecipeSummary[], query: string): SearchResult[] => {
+  const relevance = new Map(
+    createSearchIndex(recipes.map((recipe) => ({ recipe })))
+      .search(query)
+      .map((hit) => [hit.recipe, hit.relevance])
+  );
+  return recipes
+    .map((recipe) => ({ ...recipe, relevance: relevance.get(recipe) ?? 0 }))
+    .sort((a, b) => b.relevance - a.relevance);
+};
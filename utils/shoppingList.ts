@@ -0,0 +1,191 @@
+/**
+ * Shopping list helpers
+ * Merges ingredients from several recipes into one line per item and sorts them into store aisles
+ */
+
+import { Aisle, Ingredient, RecipeDetail, ShoppingListItem, ShoppingListSource } from '../types';
+import { roundQuantity } from './ingredients';
+import { toTerms } from './searchIndex';
+import { convertIngredient, getUnitSystem, toBaseUnit } from './units';
+
+// Roughly the order a shopper walks through a supermarket
+export const AISLES: Aisle[] = [
+  'produce',
+  'bakery',
+  'meat',
+  'seafood',
+  'dairy',
+  'pantry',
+  'spices',
+  'frozen',
+  'other',
+];
+
+// Checked in this order, so products named after other foods ("chicken stock", "garlic powder")
+// land on the shelf they are sold from
+const AISLE_PATTERNS: [Aisle, RegExp][] = [
+  ['frozen', /\b(?:frozen|ice cream)\b/],
+  [
+    'pantry',
+    /\b(?:stock|broth|sauce|paste|vinegar|oil|flour|sugar|honey|syrup|rice|pasta|spaghetti|linguine|penne|lasagna|noodles?|(?:black|kidney|pinto|cannellini|refried|baked) beans|lentils|chickpeas|canned|tinned|coconut milk|peanut butter|oats|cocoa|chocolate|baking|yeast|cornstarch|breadcrumbs|panko|nuts|almonds|walnuts|cashews|peanuts|mirin|sake|wine|miso|tahini|mustard|ketchup|mayonnaise|tortilla chips)\b/,
+  ],
+  [
+    'spices',
+    /\b(?:salt|peppercorns?|(?:black|white) pepper|pepper flakes|powder|seeds|cumin|paprika|turmeric|cinnamon|nutmeg|oregano|cardamom|cloves|garam masala|curry|saffron|vanilla|bay leaves?|chili flakes|five[- ]spice)\b|^pepper$/,
+  ],
+  [
+    'seafood',
+    /\b(?:fish|salmon|tuna|cod|shrimps?|prawns?|crabs?|lobsters?|scallops?|mussels?|clams?|squid|anchov(?:y|ies)|sardines?|tilapia|halibut|trout)\b/,
+  ],
+  [
+    'meat',
+    /\b(?:chicken|beef|pork|lamb|turkey|duck|bacon|pancetta|sausages?|ham|chorizo|prosciutto|veal|mince|steak)\b/,
+  ],
+  [
+    'dairy',
+    /\b(?:milk|butter|buttermilk|cream|cheese|parmesan|mozzarella|cheddar|feta|paneer|ricotta|mascarpone|yog(?:h)?urt|ghee|eggs?|tofu)\b/,
+  ],
+  ['bakery', /\b(?:bread|buns?|rolls?|baguette|tortillas?|naan|pita|croissants?|ladyfingers)\b/],
+  [
+    'produce',
+    /\b(?:onions?|garlic|ginger|tomato(?:es)?|potato(?:es)?|carrots?|celery|peppers?|chil(?:i|li|e)s?|jalapeños?|lettuce|spinach|kale|cabbage|broccoli|cauliflower|zucchini|eggplants?|mushrooms?|cucumbers?|avocados?|lemons?|limes?|oranges?|apples?|bananas?|berries|strawberries|blueberries|grapes|mangoes|pineapple|herbs?|basil|parsley|cilantro|coriander|mint|thyme|rosemary|dill|scallions?|shallots?|leeks?|corn|peas|green beans|bean sprouts|lemongrass|fruit)\b/,
+  ],
+];
+
+// Words that describe an ingredient without changing what to buy
+const DESCRIPTOR_TERMS = new Set(
+  toTerms('fresh large small medium ripe whole extra virgin boneless skinless')
+);
+
+/**
+ * Picks the store aisle for an ingredient from its English name; anything unrecognised,
+ * including translated names, goes under "other"
+ */
+export const classifyAisle = (item: string): Aisle => {
+  const lower = item.toLowerCase().trim();
+  return AISLE_PATTERNS.find(([, pattern]) => pattern.test(lower))?.[0] ?? 'other';
+};
+
+/**
+ * Key shared by every ingredient that should end up on the same line,
+ * e.g. "2 cloves garlic" and "3 cloves of fresh garlic"
+ */
+const toItemKey = (ingredient: Ingredient): string => {
+  const terms = toTerms(ingredient.item).filter((term) => !DESCRIPTOR_TERMS.has(term));
+  const name = terms.join(' ') || ingredient.item.toLowerCase().trim();
+  // Weights share a line, as do volumes, whatever unit each recipe wrote them in
+  const unit = toBaseUnit(1, ingredient.unit)?.unit ?? ingredient.unit ?? '';
+  return `${name}|${unit}`;
+};
+
+/**
+ * Totals what every recipe on a line needs; amounts like "to taste" only add when nothing else does
+ * When any recipe gives a range, the line does too, its upper bound adding up each recipe's
+ * largest amount
+ */
+export const getItemIngredient = (item: ShoppingListItem): Ingredient => {
+  const amounts = item.sources.filter(
+    (source): source is ShoppingListSource & { quantity: number } => source.quantity !== null
+  );
+  const first = amounts[0];
+  if (!first) {
+    return { quantity: null, unit: item.unit, item: item.item };
+  }
+
+  const hasRange = amounts.some((source) => source.quantityMax !== undefined);
+  const base = toBaseUnit(1, first.unit)?.unit;
+  const toBase = (source: ShoppingListSource, quantity: number) =>
+    toBaseUnit(quantity, source.unit)?.quantity ?? quantity;
+  const total = amounts.reduce((sum, source) => sum + toBase(source, source.quantity), 0);
+  const totalMax = amounts.reduce(
+    (sum, source) => sum + toBase(source, source.quantityMax ?? source.quantity),
+    0
+  );
+
+  let merged: Ingredient = { quantity: total, unit: base ?? first.unit, item: item.item };
+  // The range's upper bound is converted with the total, so it reads "3-4 cups" rather than
+  // mixing units
+  if (hasRange) merged.quantityMax = totalMax;
+  if (base) {
+    // Written in the system of the first recipe that names one, e.g. 500 g and 1 lb make 950 g
+    const system =
+      amounts
+        .map((source) => getUnitSystem(source.unit))
+        .find((unitSystem) => unitSystem !== null) ?? 'us';
+    merged = convertIngredient(merged, system);
+  }
+
+  const result: Ingredient = {
+    ...merged,
+    quantity: roundQuantity(merged.quantity ?? total, merged.unit),
+  };
+  if (merged.quantityMax !== undefined) {
+    result.quantityMax = roundQuantity(merged.quantityMax, merged.unit);
+  }
+  return result;
+};
+
+/**
+ * Takes a recipe's amounts off the list, dropping lines no other recipe needs
+ */
+export const removeRecipeFromList = (
+  items: ShoppingListItem[],
+  recipeId: string
+): ShoppingListItem[] =>
+  items
+    .map((item) => ({
+      ...item,
+      sources: item.sources.filter((source) => source.recipeId !== recipeId),
+    }))
+    .filter((item) => item.sources.length > 0);
+
+/**
+ * Adds a recipe's ingredients to the list, merging them into existing lines
+ * Adding a recipe that is already on the list replaces its earlier amounts (e.g. after
+ * changing servings) instead of counting it twice
+ */
+export const addRecipeToList = (
+  items: ShoppingListItem[],
+  recipe: Pick<RecipeDetail, 'id' | 'name'>,
+  ingredients: Ingredient[]
+): ShoppingListItem[] => {
+  const next = removeRecipeFromList(items, recipe.id).map((item) => ({ ...item }));
+
+  for (const ingredient of ingredients) {
+    const key = toItemKey(ingredient);
+    const source: ShoppingListSource = {
+      recipeId: recipe.id,
+      recipeName: recipe.name,
+      quantity: ingredient.quantity,
+      unit: ingredient.unit,
+    };
+    if (ingredient.quantityMax !== undefined) source.quantityMax = ingredient.quantityMax;
+    const existing = next.find((item) => item.key === key);
+    if (existing) {
+      existing.sources = [...existing.sources, source];
+      // Something new to buy, so the line needs checking off again
+      existing.checked = false;
+    } else {
+      next.push({
+        key,
+        item: ingredient.item,
+        unit: ingredient.unit,
+        aisle: classifyAisle(ingredient.item),
+        checked: false,
+        sources: [source],
+      });
+    }
+  }
+
+  return next;
+};
+
+/**
+ * Groups lines by aisle in shopping order, leaving out empty aisles
+ */
+export const groupByAisle = (
+  items: ShoppingListItem[]
+): { aisle: Aisle; items: ShoppingListItem[] }[] =>
+  AISLES.map((aisle) => ({ aisle, items: items.filter((item) => item.aisle === aisle) })).filter(
+    (group) => group.items.length > 0
+  );
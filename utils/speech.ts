@@ -0,0 +1,119 @@
+/**
+ * Web Speech API helpers for hands-free cooking mode
+ * Browsers without speech support (Firefox lacks recognition, some WebViews lack both)
+ * simply get no voice controls
+ */
+
+export type VoiceCommand = 'next' | 'previous' | 'repeat' | 'startTimer' | 'ingredients';
+
+export const VOICE_COMMANDS: VoiceCommand[] = [
+  'next',
+  'previous',
+  'repeat',
+  'startTimer',
+  'ingredients',
+];
+
+// Recognition and voices need a full locale; the app's languages map to their most common one
+const SPEECH_LOCALES: { [language: string]: string } = {
+  en: 'en-US',
+  hi: 'hi-IN',
+  ja: 'ja-JP',
+  es: 'es-ES',
+  th: 'th-TH',
+};
+
+export const toSpeechLocale = (language: string): string =>
+  SPEECH_LOCALES[language.split('-')[0] ?? ''] ?? language;
+
+// Recognition is not in the DOM typings yet, so only the parts used here are declared
+interface SpeechRecognitionResultEvent extends Event {
+  resultIndex: number;
+  results: SpeechRecognitionResultList;
+}
+
+interface SpeechRecognitionErrorEvent extends Event {
+  error: string;
+}
+
+export interface SpeechRecognizer extends EventTarget {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onstart: (() => void) | null;
+  onresult: ((event: SpeechRecognitionResultEvent) => void) | null;
+  onerror: ((event: SpeechRecognitionErrorEvent) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+  abort(): void;
+}
+
+type SpeechRecognizerConstructor = new () => SpeechRecognizer;
+
+/**
+ * The browser's speech recognition constructor (prefixed in Chrome and Safari), if any
+ */
+export const getSpeechRecognition = (): SpeechRecognizerConstructor | null => {
+  if (typeof window === 'undefined') return null;
+  const speechWindow = window as unknown as {
+    SpeechRecognition?: SpeechRecognizerConstructor;
+    webkitSpeechRecognition?: SpeechRecognizerConstructor;
+  };
+  return speechWindow.SpeechRecognition ?? speechWindow.webkitSpeechRecognition ?? null;
+};
+
+export const isSpeechSynthesisSupported = (): boolean =>
+  typeof window !== 'undefined' && 'speechSynthesis' in window;
+
+/**
+ * Reads text aloud, cutting off anything still being read
+ * Prefers an installed voice for the language; otherwise the browser picks one from `lang`
+ */
+export const speak = (text: string, language: string): void => {
+  if (!isSpeechSynthesisSupported() || !text.trim()) return;
+
+  const locale = toSpeechLocale(language);
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = locale;
+  const voices = window.speechSynthesis.getVoices();
+  const voice =
+    voices.find((candidate) => candidate.lang === locale) ??
+    voices.find((candidate) => candidate.lang.startsWith(locale.split('-')[0] ?? locale));
+  if (voice) utterance.voice = voice;
+
+  window.speechSynthesis.cancel();
+  window.speechSynthesis.speak(utterance);
+};
+
+export const stopSpeaking = (): void => {
+  if (isSpeechSynthesisSupported()) window.speechSynthesis.cancel();
+};
+
+const normalizeSpeech = (text: string): string =>
+  text
+    .toLowerCase()
+    .replace(/[\p{P}\p{S}]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * Finds the command in what was heard, e.g. "okay next step please" -> next
+ * Phrases are matched anywhere in the transcript, longest first, so "previous step" wins
+ * over a bare "step"
+ */
+export const matchVoiceCommand = (
+  transcript: string,
+  phrases: { [command in VoiceCommand]: string[] }
+): VoiceCommand | null => {
+  const heard = normalizeSpeech(transcript);
+  if (!heard) return null;
+
+  const candidates = VOICE_COMMANDS.flatMap((command) =>
+    phrases[command]
+      .map((phrase) => ({ command, phrase: normalizeSpeech(phrase) }))
+      .filter(({ phrase }) => phrase.length > 0)
+  ).sort((a, b) => b.phrase.length - a.phrase.length);
+
+  return candidates.find(({ phrase }) => heard.includes(phrase))?.command ?? null;
+};
@@ -0,0 +1,79 @@
+/**
+ * Finds durations in instruction text ("simmer for 30 minutes", "bake 1 1/2 hours")
+ * so cooking mode can offer a timer for them
+ */
+
+export interface StepDuration {
+  // The words the duration was read from, e.g. "10-12 minutes"
+  text: string;
+  seconds: number;
+}
+
+const UNIT_SECONDS: { [unit: string]: number } = {
+  s: 1,
+  sec: 1,
+  secs: 1,
+  second: 1,
+  seconds: 1,
+  m: 60,
+  min: 60,
+  mins: 60,
+  minute: 60,
+  minutes: 60,
+  h: 3600,
+  hr: 3600,
+  hrs: 3600,
+  hour: 3600,
+  hours: 3600,
+};
+
+const NUMBER = '(?:\\d+\\s+\\d+\\/\\d+|\\d+\\/\\d+|\\d+(?:\\.\\d+)?|an?|one|half an?)';
+const UNIT = '(?:seconds?|secs?|minutes?|mins?|hours?|hrs?|[smh])';
+
+// "10 minutes", "10-12 min", "1 to 2 hours", "an hour", "1 hr 15 min"
+const DURATION_REGEX = new RegExp(
+  `\\b(${NUMBER})(?:\\s*(?:-|–|to)\\s*(${NUMBER}))?\\s*(${UNIT})\\b` +
+    `(?:\\s*(?:and\\s*)?(\\d+)\\s*(${UNIT})\\b)?`,
+  'gi'
+);
+
+const parseAmount = (token: string): number => {
+  const value = token.toLowerCase().trim();
+  if (value === 'a' || value === 'an' || value === 'one') return 1;
+  if (value.startsWith('half')) return 0.5;
+
+  const mixed = value.match(/^(\d+)\s+(\d+)\/(\d+)$/);
+  if (mixed) return Number(mixed[1]) + Number(mixed[2]) / Number(mixed[3]);
+  const fraction = value.match(/^(\d+)\/(\d+)$/);
+  if (fraction) return Number(fraction[1]) / Number(fraction[2]);
+  return Number(value);
+};
+
+/**
+ * Lists every duration mentioned in a step, in order
+ * Ranges use their upper bound, so a timer never goes off before the food is ready
+ */
+export const findStepDurations = (text: string): StepDuration[] => {
+  const durations: StepDuration[] = [];
+  for (const match of text.matchAll(DURATION_REGEX)) {
+    const [whole, from = '', to, unit = '', extra, extraUnit] = match;
+    const seconds =
+      parseAmount(to ?? from) * (UNIT_SECONDS[unit.toLowerCase()] ?? 0) +
+      (extra && extraUnit ? Number(extra) * (UNIT_SECONDS[extraUnit.toLowerCase()] ?? 0) : 0);
+    if (Number.isFinite(seconds) && seconds > 0) {
+      durations.push({ text: whole.trim(), seconds: Math.round(seconds) });
+    }
+  }
+  return durations;
+};
+
+/**
+ * Renders a countdown as m:ss, or h:mm:ss once it reaches an hour
+ */
+export const formatCountdown = (totalSeconds: number): string => {
+  const seconds = Math.max(0, Math.ceil(totalSeconds));
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const rest = String(seconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${rest}` : `${minutes}:${rest}`;
+};
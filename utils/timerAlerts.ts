@@ -0,0 +1,85 @@
+/**
+ * Sound and system notifications for finished kitchen timers
+ */
+
+import i18n from '../i18n/config';
+
+// A finished timer rings a few times in case nobody is near the screen
+const RING_COUNT = 4;
+const RING_INTERVAL_MS = 3000;
+
+let audioContext: AudioContext | null = null;
+
+/**
+ * Must run from a user gesture (e.g. starting a timer): browsers only allow audio, and only
+ * prompt for notification permission, in response to one
+ */
+export const prepareTimerAlerts = (): void => {
+  try {
+    audioContext ??= new AudioContext();
+    if (audioContext.state === 'suspended') {
+      audioContext.resume().catch(() => {
+        // Stays silent; the tray and notification still show
+      });
+    }
+  } catch {
+    // Web Audio unavailable
+  }
+
+  if (typeof Notification !== 'undefined' && Notification.permission === 'default') {
+    Notification.requestPermission().catch(() => {
+      // Older Safari only supports the callback form; the visual alert still works
+    });
+  }
+};
+
+/**
+ * Three short beeps
+ */
+const ring = (context: AudioContext) => {
+  for (let beep = 0; beep < 3; beep++) {
+    const start = context.currentTime + beep * 0.3;
+    const oscillator = context.createOscillator();
+    const gain = context.createGain();
+    oscillator.type = 'sine';
+    oscillator.frequency.value = 880;
+    gain.gain.setValueAtTime(0.3, start);
+    gain.gain.exponentialRampToValueAtTime(0.001, start + 0.2);
+    oscillator.connect(gain).connect(context.destination);
+    oscillator.start(start);
+    oscillator.stop(start + 0.2);
+  }
+};
+
+/**
+ * Rings and shows a system notification for a finished timer
+ * @returns A function that stops any rings still to come
+ */
+export const announceTimerDone = (label: string): (() => void) => {
+  const title = i18n.t('timers.doneTitle');
+  const body = i18n.t('timers.doneBody', { label });
+
+  if (typeof Notification !== 'undefined' && Notification.permission === 'granted') {
+    try {
+      new Notification(title, { body, tag: `timer-${label}` });
+    } catch {
+      // Some mobile browsers only allow notifications from a service worker
+    }
+  }
+
+  const context = audioContext;
+  if (!context) return () => {};
+
+  let rings = 0;
+  ring(context);
+  const interval = window.setInterval(() => {
+    rings += 1;
+    if (rings >= RING_COUNT) {
+      window.clearInterval(interval);
+    } else {
+      ring(context);
+    }
+  }, RING_INTERVAL_MS);
+
+  return () => window.clearInterval(interval);
+};
@@ -0,0 +1,197 @@
+/**
+ * Unit system conversion for ingredient quantities and cooking temperatures
+ * Recipes are stored as written; conversion only happens at render time
+ */
+
+import { Ingredient, UnitSystem } from '../types';
+import { parseMeasurement, roundQuantity } from './ingredients';
+
+// Grams per weight unit
+const GRAMS: { [unit: string]: number } = {
+  g: 1,
+  kg: 1000,
+  oz: 28.3495,
+  lb: 453.592,
+};
+
+// Millilitres per volume unit; cups and pints differ between the US and the UK
+const MILLILITRES: { [system in UnitSystem]: { [unit: string]: number } } = {
+  metric: { ml: 1, L: 1000, tsp: 5, tbsp: 15, cup: 250, 'fl oz': 28.413, pint: 568.261 },
+  us: { ml: 1, L: 1000, tsp: 4.929, tbsp: 14.787, cup: 236.588, 'fl oz': 29.574, pint: 473.176 },
+  uk: { ml: 1, L: 1000, tsp: 5, tbsp: 15, cup: 284.131, 'fl oz': 28.413, pint: 568.261 },
+};
+
+// Ingredients parsed from US-authored recipes use US cup and pint sizes
+const SOURCE_VOLUMES = MILLILITRES.us;
+
+// Units each system writes amounts in; spoon measures belong to all of them
+const SYSTEM_UNITS: { [system in UnitSystem]: string[] } = {
+  metric: ['g', 'kg', 'ml', 'L', 'tsp', 'tbsp'],
+  us: ['oz', 'lb', 'cup', 'fl oz', 'pint', 'tsp', 'tbsp'],
+  uk: ['oz', 'lb', 'fl oz', 'pint', 'tsp', 'tbsp'],
+};
+
+const OUNCES_PER_POUND = 16;
+const UK_FL_OZ_PER_PINT = 20;
+
+/**
+ * Picks the best-fitting weight unit for a system, given a weight in grams
+ */
+const toWeight = (grams: number, system: UnitSystem): { quantity: number; unit: string } => {
+  if (system === 'metric') {
+    return grams >= 1000 ? { quantity: grams / 1000, unit: 'kg' } : { quantity: grams, unit: 'g' };
+  }
+
+  const ounces = grams / (GRAMS.oz ?? 1);
+  return ounces >= OUNCES_PER_POUND
+    ? { quantity: ounces / OUNCES_PER_POUND, unit: 'lb' }
+    : { quantity: ounces, unit: 'oz' };
+};
+
+/**
+ * Picks the best-fitting volume unit for a system, given a volume in millilitres
+ * Teaspoons and tablespoons are understood everywhere, so small amounts stay in spoons
+ */
+const toVolume = (millilitres: number, system: UnitSystem): { quantity: number; unit: string } => {
+  const volumes = MILLILITRES[system];
+  const tbsp = volumes.tbsp ?? 15;
+  const tsp = volumes.tsp ?? 5;
+
+  if (millilitres < tbsp) return { quantity: millilitres / tsp, unit: 'tsp' };
+  if (millilitres < tbsp * 4) return { quantity: millilitres / tbsp, unit: 'tbsp' };
+
+  switch (system) {
+    case 'metric':
+      return millilitres >= 1000
+        ? { quantity: millilitres / 1000, unit: 'L' }
+        : { quantity: millilitres, unit: 'ml' };
+    case 'us':
+      return { quantity: millilitres / (volumes.cup ?? 1), unit: 'cup' };
+    case 'uk': {
+      const fluidOunces = millilitres / (volumes['fl oz'] ?? 1);
+      return fluidOunces >= UK_FL_OZ_PER_PINT
+        ? { quantity: fluidOunces / UK_FL_OZ_PER_PINT, unit: 'pint' }
+        : { quantity: fluidOunces, unit: 'fl oz' };
+    }
+  }
+};
+
+/**
+ * Expresses a weight in grams or a volume in millilitres, so amounts written in different units
+ * can be added together; null for units that do not convert, like "cloves"
+ */
+export const toBaseUnit = (
+  quantity: number,
+  unit: string | null
+): { quantity: number; unit: 'g' | 'ml' } | null => {
+  const grams = unit ? GRAMS[unit] : undefined;
+  if (grams !== undefined) return { quantity: quantity * grams, unit: 'g' };
+  const millilitres = unit ? SOURCE_VOLUMES[unit] : undefined;
+  if (millilitres !== undefined) return { quantity: quantity * millilitres, unit: 'ml' };
+  return null;
+};
+
+/**
+ * The system a unit is written in; null for spoon measures, which every system uses
+ */
+export const getUnitSystem = (unit: string | null): UnitSystem | null => {
+  if (!unit || unit === 'tsp' || unit === 'tbsp') return null;
+  if (SYSTEM_UNITS.metric.includes(unit)) return 'metric';
+  // Measured with US cup and pint sizes, like every parsed ingredient
+  return toBaseUnit(1, unit) ? 'us' : null;
+};
+
+/**
+ * Converts an ingredient's quantity into the preferred unit system
+ * Countable items ("2 eggs", "3 cloves garlic") are left untouched
+ */
+export const convertIngredient = (ingredient: Ingredient, system: UnitSystem): Ingredient => {
+  const { quantity, unit } = ingredient;
+  if (quantity === null || !unit) {
+    return ingredient;
+  }
+
+  let converted: { quantity: number; unit: string } | null = null;
+
+  const grams = GRAMS[unit];
+  const millilitres = SOURCE_VOLUMES[unit];
+  if (grams !== undefined) {
+    converted = toWeight(quantity * grams, system);
+  } else if (millilitres !== undefined) {
+    // Spoon measures read the same in every system
+    if (unit === 'tsp' || unit === 'tbsp') return ingredient;
+    converted = toVolume(quantity * millilitres, system);
+  }
+
+  if (!converted || converted.unit === unit) {
+    return ingredient;
+  }
+
+  const ratio = converted.quantity / quantity;
+  const result: Ingredient = {
+    ...ingredient,
+    quantity: roundQuantity(converted.quantity, converted.unit),
+    unit: converted.unit,
+  };
+
+  if (ingredient.quantityMax !== undefined) {
+    result.quantityMax = roundQuantity(ingredient.quantityMax * ratio, converted.unit);
+  }
+
+  // A note giving the amount in the target system ("1 cup milk (240ml)") now repeats it
+  if (ingredient.note) {
+    const note = ingredient.note
+      .split(',')
+      .map((part) => part.trim())
+      .filter((part) => {
+        const measurement = parseMeasurement(part);
+        return !measurement || !SYSTEM_UNITS[system].includes(measurement.unit);
+      })
+      .join(', ');
+    if (note) {
+      result.note = note;
+    } else {
+      delete result.note;
+    }
+  }
+
+  return result;
+};
+
+const fahrenheitToCelsius = (fahrenheit: number): number => ((fahrenheit - 32) * 5) / 9;
+const celsiusToFahrenheit = (celsius: number): number => (celsius * 9) / 5 + 32;
+
+// Oven settings are written in steps of 25°F or 10°C; lower temperatures in steps of five
+const OVEN_STEPS: { [scale: string]: { from: number; step: number } } = {
+  F: { from: 250, step: 25 },
+  C: { from: 120, step: 10 },
+};
+
+const roundTemperature = (degrees: number, scale: 'F' | 'C'): number => {
+  const { from, step } = OVEN_STEPS[scale] ?? { from: Infinity, step: 5 };
+  const size = degrees >= from ? step : 5;
+  return Math.round(degrees / size) * size;
+};
+
+// A reading such as "475°F", "475 °F", "475F", "475 degrees F" or "245 degrees Celsius"
+const READING = String.raw`(\d+)(?:\s*°\s*|\s+degrees?\s+)?([FC])(?:ahrenheit|elsius)?\b`;
+// One reading, or both scales as in "475°F (245°C)", in either order
+const TEMPERATURE_REGEX = new RegExp(String.raw`\b${READING}(?:\s*\(\s*${READING}\s*\))?`, 'g');
+
+/**
+ * Rewrites temperatures in an instruction for the preferred unit system
+ * When the text already lists both scales, the matching one is kept as written
+ */
+export const convertTemperatures = (text: string, system: UnitSystem): string =>
+  text.replace(
+    TEMPERATURE_REGEX,
+    (_match, first: string, firstScale: string, second?: string, secondScale?: string) => {
+      const readings: { [scale: string]: number } = { [firstScale]: Number(first) };
+      if (second && secondScale) readings[secondScale] = Number(second);
+
+      const fahrenheit = readings.F ?? roundTemperature(celsiusToFahrenheit(readings.C ?? 0), 'F');
+      const celsius = readings.C ?? roundTemperature(fahrenheitToCelsius(readings.F ?? 0), 'C');
+
+      return system === 'us' ? `${fahrenheit}°F` : `${celsius}°C`;
+    }
+  );
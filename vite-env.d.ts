@@ -1,8 +1,12 @@
 /// <reference types="vite/client" />
 
 interface ImportMetaEnv {
-  readonly VITE_GEMINI_API_KEY: string;
-  readonly VITE_UNSPLASH_ACCESS_KEY: string;
+  readonly VITE_API_BASE_URL?: string;
+  readonly VITE_OFFLINE_MODE?: string;
+  readonly VITE_MODEL_MAX_CONCURRENT?: string;
+  readonly VITE_MODEL_REQUESTS_PER_MINUTE?: string;
+  readonly VITE_RECIPE_CACHE_TTL_MINUTES?: string;
+  readonly VITE_RECIPE_CACHE_MAX_KB?: string;
 }
 
 interface ImportMeta {
@@ -1,33 +1,95 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig } from 'vite';
+import { Plugin, defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig({
-  server: {
-    port: 3000,
-    host: '0.0.0.0',
+/**
+ * Serves the Vercel functions in api/ from the dev server, so `npm run dev` works
+ * without the Vercel CLI
+ */
+const apiDevServer = (): Plugin => ({
+  name: 'api-dev-server',
+  configureServer(server) {
+    server.middlewares.use('/api', async (req, res, next) => {
+      const name = new URL(req.url ?? '/', 'http://localhost').pathname.replace(/^\/+|\/+$/g, '');
+      const file = path.resolve(__dirname, 'api', `${name}.ts`);
+      if (!/^[a-z-]+$/.test(name) || !fs.existsSync(file)) {
+        res.statusCode = 404;
+        res.end();
+        return;
+      }
+
+      try {
+        const handler = (await server.ssrLoadModule(file))[req.method ?? 'GET'];
+        if (typeof handler !== 'function') {
+          res.statusCode = 405;
+          res.end();
+          return;
+        }
+
+        const chunks: Buffer[] = [];
+        for await (const chunk of req) chunks.push(chunk as Buffer);
+        const request = new Request(`http://${req.headers.host}${req.originalUrl ?? req.url}`, {
+          method: req.method,
+          // What the endpoints' origin check and per-IP limit look at, as Vercel passes them on
+          headers: {
+            'Content-Type': req.headers['content-type'] ?? 'application/json',
+            ...(req.headers.origin && { Origin: req.headers.origin }),
+            ...(typeof req.headers['sec-fetch-site'] === 'string' && {
+              'Sec-Fetch-Site': req.headers['sec-fetch-site'],
+            }),
+            'X-Forwarded-For': req.socket.remoteAddress ?? '',
+          },
+          body: chunks.length > 0 ? Buffer.concat(chunks) : undefined,
+        });
+
+        const response: Response = await handler(request);
+        res.statusCode = response.status;
+        response.headers.forEach((value, key) => res.setHeader(key, value));
+        // Copied piece by piece, so streamed replies arrive as they are written
+        const reader = response.body?.getReader();
+        for (let chunk = await reader?.read(); chunk && !chunk.done; chunk = await reader?.read()) {
+          res.write(chunk.value);
+        }
+        res.end();
+      } catch (error) {
+        next(error);
+      }
+    });
   },
-  plugins: [react()],
-  resolve: {
-    alias: {
-      '@': path.resolve(__dirname, '.'),
-      '@components': path.resolve(__dirname, './components'),
-      '@hooks': path.resolve(__dirname, './hooks'),
-      '@services': path.resolve(__dirname, './services'),
-      '@utils': path.resolve(__dirname, './utils'),
-      '@config': path.resolve(__dirname, './config'),
+});
+
+export default defineConfig(({ mode }) => {
+  // The api/ functions read their keys from process.env, as they do on Vercel
+  process.env = { ...loadEnv(mode, process.cwd(), ''), ...process.env };
+
+  return {
+    server: {
+      port: 3000,
+      host: '0.0.0.0',
     },
-  },
-  build: {
-    outDir: 'dist',
-    sourcemap: false,
-    rollupOptions: {
-      output: {
-        manualChunks: {
-          'react-vendor': ['react', 'react-dom', 'react-router-dom'],
-          'i18n-vendor': ['i18next', 'react-i18next', 'i18next-browser-languagedetector'],
+    plugins: [react(), apiDevServer()],
+    resolve: {
+      alias: {
+        '@': path.resolve(__dirname, '.'),
+        '@components': path.resolve(__dirname, './components'),
+        '@hooks': path.resolve(__dirname, './hooks'),
+        '@services': path.resolve(__dirname, './services'),
+        '@utils': path.resolve(__dirname, './utils'),
+        '@config': path.resolve(__dirname, './config'),
+      },
+    },
+    build: {
+      outDir: 'dist',
+      sourcemap: false,
+      rollupOptions: {
+        output: {
+          manualChunks: {
+            'react-vendor': ['react', 'react-dom', 'react-router-dom'],
+            'i18n-vendor': ['i18next', 'react-i18next', 'i18next-browser-languagedetector'],
+          },
         },
       },
     },
-  },
+  };
 });